@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { checkDeleteToken, deleteStrip, getStrip, readStripFile } from "@/lib/stripStorage";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+// GET ?file=image|gif serves the stored file, add &download=1 to save it
+export async function GET(request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    const meta = await getStrip(id);
+    if (!meta) {
+        return NextResponse.json({ error: "Strip not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const file = await readStripFile(meta, searchParams.get("file") === "gif" ? "gif" : "image");
+    if (!file) {
+        return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    const disposition = searchParams.get("download") ? "attachment" : "inline";
+    return new NextResponse(new Uint8Array(file.data), {
+        headers: {
+            "Content-Type": file.type,
+            "X-Content-Type-Options": "nosniff",
+            "Content-Disposition": `${disposition}; filename="photobooth-${meta.id}-${file.name}"`,
+            "Cache-Control": "private, max-age=3600",
+        },
+    });
+}
+
+// DELETE with the x-delete-token header returned by the upload
+export async function DELETE(request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    const meta = await getStrip(id);
+    if (!meta) {
+        return NextResponse.json({ error: "Strip not found" }, { status: 404 });
+    }
+
+    const token = request.headers.get("x-delete-token") || "";
+    if (!checkDeleteToken(meta, token)) {
+        return NextResponse.json({ error: "Invalid delete token" }, { status: 403 });
+    }
+
+    await deleteStrip(id);
+    return new NextResponse(null, { status: 204 });
+}
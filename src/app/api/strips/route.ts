@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { detectImageType, MAX_GIF_BYTES, MAX_IMAGE_BYTES, MAX_UPLOAD_BYTES, saveStrip, sweepExpiredStrips } from "@/lib/stripStorage";
+
+// POST multipart/form-data with `image` (PNG or JPEG) and an optional `gif`
+export async function POST(request: Request) {
+    // formData() buffers the whole body, so turn oversized uploads away before reading it
+    const length = Number(request.headers.get("content-length"));
+    if (!request.headers.has("content-length") || !Number.isFinite(length)) {
+        return NextResponse.json({ error: "Content-Length is required" }, { status: 411 });
+    }
+    if (length > MAX_UPLOAD_BYTES) {
+        return NextResponse.json({ error: "Upload is too large" }, { status: 413 });
+    }
+
+    let form: FormData;
+    try {
+        form = await request.formData();
+    } catch {
+        return NextResponse.json({ error: "Expected multipart form data" }, { status: 400 });
+    }
+
+    const image = form.get("image");
+    const gif = form.get("gif");
+
+    if (!(image instanceof Blob)) {
+        return NextResponse.json({ error: "A PNG or JPEG image is required" }, { status: 400 });
+    }
+    if (image.size > MAX_IMAGE_BYTES) {
+        return NextResponse.json({ error: "Image is too large" }, { status: 413 });
+    }
+    if (gif !== null && !(gif instanceof Blob)) {
+        return NextResponse.json({ error: "gif must be a GIF file" }, { status: 400 });
+    }
+    if (gif instanceof Blob && gif.size > MAX_GIF_BYTES) {
+        return NextResponse.json({ error: "GIF is too large" }, { status: 413 });
+    }
+
+    // The stored type comes from the file's own bytes, never from the client
+    const imageData = Buffer.from(await image.arrayBuffer());
+    const imageType = detectImageType(imageData);
+    if (imageType !== "image/png" && imageType !== "image/jpeg") {
+        return NextResponse.json({ error: "A PNG or JPEG image is required" }, { status: 400 });
+    }
+    const gifData = gif instanceof Blob ? Buffer.from(await gif.arrayBuffer()) : null;
+    if (gifData && detectImageType(gifData) !== "image/gif") {
+        return NextResponse.json({ error: "gif must be a GIF file" }, { status: 400 });
+    }
+
+    // Clean up now and then so expired strips don't pile up; the upload doesn't wait for it
+    sweepExpiredStrips().catch((err) => console.error("Strip cleanup failed", err));
+
+    try {
+        const meta = await saveStrip({ data: imageData, type: imageType }, gifData);
+        return NextResponse.json(
+            { id: meta.id, expiresAt: meta.expiresAt, deleteToken: meta.deleteToken },
+            { status: 201 }
+        );
+    } catch (err) {
+        console.error("Failed to store strip", err);
+        return NextResponse.json({ error: "Could not store strip" }, { status: 500 });
+    }
+}
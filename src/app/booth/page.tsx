@@ -1,49 +1,209 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { use, useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import dynamic from "next/dynamic";
-import LayoutSelector, { LayoutType } from "@/components/LayoutSelector";
+import LayoutSelector from "@/components/LayoutSelector";
 import Camera from "@/components/Camera";
+import PhotoUpload from "@/components/PhotoUpload";
+import KioskDialog from "@/components/KioskDialog";
 import styles from "./booth.module.css";
-import Link from "next/link";
+import { Camera as CameraIcon, ImageUp, Lock, MonitorSmartphone } from "lucide-react";
 import { useNavbar } from "@/context/NavbarContext";
+import { DEFAULT_FILTER, FilterSettings } from "@/lib/filters";
+import { Burst, BurstOptions, releaseBursts } from "@/lib/frames";
+import { LayoutTemplate } from "@/lib/layouts";
+import { getCapture, getServerCapture, subscribeCapture } from "@/lib/captureSettings";
+import { HandsFreeOptions } from "@/lib/motionTrigger";
+import { getChromaKey, getServerChromaKey, subscribeChromaKey } from "@/lib/chromaKey";
+import { enterFullscreen, getKiosk, getServerKiosk, subscribeKiosk } from "@/lib/kiosk";
+import { EditorState } from "@/lib/stripModel";
+import {
+    BoothStep,
+    createSession,
+    deleteSession,
+    getResumableSession,
+    getSession,
+    loadBursts,
+    saveBursts,
+    saveSession,
+    SessionRecord,
+} from "@/lib/sessionStore";
 
 const PhotoEditor = dynamic(() => import("@/components/PhotoEditor"), { ssr: false });
 
-type Step = "layout" | "camera" | "edit";
+type Step = BoothStep;
 
-const LAYOUT_CONFIG: Record<LayoutType, { count: number }> = {
-    "4-diagonal": { count: 4 },
-    "3-diagonal": { count: 3 },
-    "4-square": { count: 4 },
-    "6-grid": { count: 6 },
-};
+interface BoothPageProps {
+    searchParams: Promise<{ session?: string }>; // ?session=<id> reopens a gallery entry
+}
 
-export default function BoothPage() {
+export default function BoothPage({ searchParams }: BoothPageProps) {
+    const { session: sessionParam } = use(searchParams);
     const [step, setStep] = useState<Step>("layout");
-    const [selectedLayout, setSelectedLayout] = useState<LayoutType | null>(null);
-    const [capturedPhotos, setCapturedPhotos] = useState<string[][]>([]); // Array of bursts
-    const [selectedFilter, setSelectedFilter] = useState<"normal" | "bw" | "soft" | "vintage">("normal");
+    const [selectedLayout, setSelectedLayout] = useState<LayoutTemplate | null>(null);
+    const [capturedPhotos, setCapturedPhotos] = useState<Burst[]>([]);
+    const [selectedFilter, setSelectedFilter] = useState<FilterSettings>(DEFAULT_FILTER);
+
+    const [editorState, setEditorState] = useState<EditorState | null>(null); // Restored editor state, if resuming
+    const [resumable, setResumable] = useState<SessionRecord | null>(null);
+    const sessionRef = useRef<SessionRecord | null>(null);
+
+    const kiosk = useSyncExternalStore(subscribeKiosk, getKiosk, getServerKiosk);
+    const capture = useSyncExternalStore(subscribeCapture, getCapture, getServerCapture);
+    const chromaKey = useSyncExternalStore(subscribeChromaKey, getChromaKey, getServerChromaKey);
+    // Stable between renders so a capture in progress isn't restarted
+    const burstOptions = useMemo<BurstOptions>(
+        () => ({ fps: capture.burstFps, size: capture.burstSize, quality: capture.burstQuality }),
+        [capture.burstFps, capture.burstSize, capture.burstQuality]
+    );
+    const handsFree = useMemo<HandsFreeOptions>(
+        () => ({ mode: capture.handsFree, sensitivity: capture.sensitivity, stillSeconds: capture.stillSeconds }),
+        [capture.handsFree, capture.sensitivity, capture.stillSeconds]
+    );
+    const [showKioskDialog, setShowKioskDialog] = useState(false);
+    const [busy, setBusy] = useState(false); // Capturing or exporting; the kiosk idle timer waits
+
+    const resumeSession = useCallback(async (session: SessionRecord) => {
+        try {
+            const bursts = session.step === "edit" ? await loadBursts(session.id) : [];
+            // Photos never made it to disk, so go back to the camera; uploads aren't kept either
+            const nextStep = session.step === "edit" && bursts.length === 0 ? "camera" : session.step;
+            sessionRef.current = { ...session, step: nextStep };
+            setSelectedLayout(session.layout);
+            setSelectedFilter(session.filter);
+            setCapturedPhotos(bursts);
+            setEditorState(session.editor);
+            setStep(nextStep);
+        } catch (err) {
+            console.error("Failed to resume session", err);
+        }
+        setResumable(null);
+    }, []);
+
+    // Reopen a gallery entry, or offer to pick up the last unfinished session
+    useEffect(() => {
+        if (sessionParam) {
+            getSession(sessionParam)
+                .then((session) => session && resumeSession(session))
+                .catch((err) => console.error("Failed to open session", err));
+            return;
+        }
+        getResumableSession()
+            .then(setResumable)
+            .catch((err) => console.error("Failed to read saved sessions", err));
+    }, [sessionParam, resumeSession]);
+
+    // The booth owns the frames once the camera hands them over; release them once they're replaced
+    useEffect(() => () => releaseBursts(capturedPhotos), [capturedPhotos]);
 
-    const handleLayoutSelect = (layout: LayoutType) => {
+    const persist = useCallback((changes: Partial<SessionRecord>) => {
+        if (!sessionRef.current) sessionRef.current = createSession();
+        sessionRef.current = { ...sessionRef.current, ...changes };
+        saveSession(sessionRef.current).catch((err) => console.error("Failed to save session", err));
+    }, []);
+
+    const handleLayoutSelect = (layout: LayoutTemplate) => {
+        // Picking a layout always starts a fresh session
+        sessionRef.current = createSession();
+        setResumable(null);
+        persist({ step: "camera", layout });
         setSelectedLayout(layout);
         setStep("camera");
     };
 
-    const handleCaptureComplete = (photos: string[][], filter: "normal" | "bw" | "soft" | "vintage") => {
+    const handleCaptureComplete = (photos: Burst[], filter: FilterSettings) => {
+        persist({ step: "edit", filter });
+        if (sessionRef.current) {
+            saveBursts(sessionRef.current.id, photos).catch((err) => console.error("Failed to save photos", err));
+        }
         setCapturedPhotos(photos);
         setSelectedFilter(filter);
         setStep("edit");
     };
 
-    const { setCenterContent } = useNavbar();
+    // Uploads go through the same path as a capture, with the camera's filter left neutral
+    const handleUploadComplete = (photos: Burst[]) => handleCaptureComplete(photos, DEFAULT_FILTER);
+
+    const switchSource = (next: "camera" | "upload") => {
+        persist({ step: next });
+        setStep(next);
+    };
+
+    const handleEditorStateChange = useCallback((state: EditorState) => {
+        persist({ editor: state });
+    }, [persist]);
+
+    const discardSession = (session: SessionRecord) => {
+        deleteSession(session.id).catch((err) => console.error("Failed to delete session", err));
+        setResumable(null);
+    };
+
+    const handleExport = useCallback((thumbnail: Blob | null) => {
+        persist(thumbnail ? { finished: true, thumbnail } : { finished: true });
+    }, [persist]);
+
+    const handleReset = async () => {
+        // Finished sessions belong to the gallery, only drop unfinished ones
+        const session = sessionRef.current;
+        if (session && !session.finished) {
+            await deleteSession(session.id).catch((err) => console.error("Failed to delete session", err));
+        }
+        window.location.assign("/booth");
+    };
+
+    // Kiosk counterpart of handleReset: back to the first step without a reload
+    const returnToLayout = useCallback(() => {
+        const session = sessionRef.current;
+        if (session && !session.finished) {
+            deleteSession(session.id).catch((err) => console.error("Failed to delete session", err));
+        }
+        sessionRef.current = null;
+        setSelectedLayout(null);
+        setCapturedPhotos([]);
+        setSelectedFilter(DEFAULT_FILTER);
+        setEditorState(null);
+        setStep("layout");
+    }, []);
+
+    const { setCenterContent, setLinksHidden } = useNavbar();
+
+    useEffect(() => {
+        setLinksHidden(kiosk.enabled);
+        return () => setLinksHidden(false);
+    }, [kiosk.enabled, setLinksHidden]);
+
+    // Kiosk: any tap puts the page back into fullscreen (the browser drops it on
+    // Esc), and a guest who walks away is sent back to the layout step. The timer
+    // only runs while nothing is happening; it starts afresh when a capture or export ends.
+    useEffect(() => {
+        if (!kiosk.enabled) return;
+        let idleTimer: NodeJS.Timeout | undefined;
+        const resetIdle = () => {
+            clearTimeout(idleTimer);
+            if (step !== "layout" && !busy) idleTimer = setTimeout(returnToLayout, kiosk.idleSeconds * 1000);
+        };
+        const handlePointer = () => {
+            enterFullscreen();
+            resetIdle();
+        };
+        resetIdle();
+        window.addEventListener("pointerdown", handlePointer);
+        window.addEventListener("keydown", resetIdle);
+        return () => {
+            clearTimeout(idleTimer);
+            window.removeEventListener("pointerdown", handlePointer);
+            window.removeEventListener("keydown", resetIdle);
+        };
+    }, [kiosk.enabled, kiosk.idleSeconds, step, busy, returnToLayout]);
 
     React.useEffect(() => {
         setCenterContent(
             <div className={styles.steps}>
                 <span className={step === "layout" ? styles.activeStep : ""}>Layout</span>
                 <span className={styles.separator}>›</span>
-                <span className={step === "camera" ? styles.activeStep : ""}>Camera</span>
+                <span className={step === "camera" || step === "upload" ? styles.activeStep : ""}>
+                    {step === "upload" ? "Upload" : "Camera"}
+                </span>
                 <span className={styles.separator}>›</span>
                 <span className={step === "edit" ? styles.activeStep : ""}>Edit</span>
             </div>
@@ -52,27 +212,87 @@ export default function BoothPage() {
     }, [step, setCenterContent]);
 
     return (
-        <main className={styles.container}>
+        <main className={`${styles.container} ${kiosk.enabled ? styles.kiosk : ""}`}>
             {/* Header removed to avoid duplication with global Navbar */}
 
+            {kiosk.enabled ? (
+                <button className={styles.kioskExit} onClick={() => setShowKioskDialog(true)} aria-label="Exit kiosk mode">
+                    <Lock size={18} />
+                </button>
+            ) : step === "layout" && (
+                <button className={`btn ${styles.kioskBtn}`} onClick={() => setShowKioskDialog(true)}>
+                    <MonitorSmartphone size={16} /> Kiosk Mode
+                </button>
+            )}
+            {showKioskDialog && <KioskDialog settings={kiosk} onClose={() => setShowKioskDialog(false)} />}
+
             <div className={styles.content}>
+                {step === "layout" && resumable && !kiosk.enabled && (
+                    <div className={styles.resumeBanner}>
+                        <p>
+                            You have an unfinished session from{" "}
+                            {new Date(resumable.updatedAt).toLocaleString()}.
+                        </p>
+                        <div className={styles.resumeActions}>
+                            <button className="btn" onClick={() => discardSession(resumable)}>Discard</button>
+                            <button className="btn btn-primary" onClick={() => resumeSession(resumable)}>Resume</button>
+                        </div>
+                    </div>
+                )}
+
                 {step === "layout" && (
-                    <LayoutSelector onSelect={handleLayoutSelect} />
+                    <LayoutSelector onSelect={handleLayoutSelect} kiosk={kiosk.enabled} />
+                )}
+
+                {(step === "camera" || step === "upload") && !kiosk.enabled && (
+                    <div className={styles.sourceToggle}>
+                        <button
+                            className={step === "camera" ? styles.activeSource : ""}
+                            onClick={() => switchSource("camera")}
+                        >
+                            <CameraIcon size={16} /> Camera
+                        </button>
+                        <button
+                            className={step === "upload" ? styles.activeSource : ""}
+                            onClick={() => switchSource("upload")}
+                        >
+                            <ImageUp size={16} /> Upload photos
+                        </button>
+                    </div>
                 )}
 
                 {step === "camera" && selectedLayout && (
                     <Camera
-                        photoCount={LAYOUT_CONFIG[selectedLayout].count}
+                        layout={selectedLayout}
                         onComplete={handleCaptureComplete}
+                        timerDuration={capture.countdown}
+                        pauseDuration={capture.pause}
+                        getReadyDuration={capture.getReady}
+                        sound={capture.sound}
+                        lookHere={capture.lookHere}
+                        burstOptions={burstOptions}
+                        handsFree={handsFree}
+                        chromaKey={chromaKey}
+                        onBusyChange={setBusy}
+                        kiosk={kiosk.enabled ? kiosk : undefined}
                     />
                 )}
 
+                {step === "upload" && selectedLayout && (
+                    <PhotoUpload layout={selectedLayout} burstOptions={burstOptions} onComplete={handleUploadComplete} />
+                )}
+
                 {step === "edit" && selectedLayout && (
                     <PhotoEditor
                         photos={capturedPhotos}
                         layout={selectedLayout}
                         filter={selectedFilter}
-                        onReset={() => window.location.reload()}
+                        initialState={editorState}
+                        onStateChange={handleEditorStateChange}
+                        onExport={handleExport}
+                        onReset={kiosk.enabled ? returnToLayout : handleReset}
+                        kiosk={kiosk.enabled}
+                        onBusyChange={setBusy}
                     />
                 )}
             </div>
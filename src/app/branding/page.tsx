@@ -0,0 +1,154 @@
+"use client";
+
+import React, { useState, useSyncExternalStore } from "react";
+import { Trash2, Upload } from "lucide-react";
+import styles from "./branding.module.css";
+import {
+    BrandingSettings,
+    DATE_FORMATS,
+    DEFAULT_BRANDING,
+    DateFormat,
+    formatBrandDate,
+    getBranding,
+    getServerBranding,
+    HeaderPlacement,
+    isValidLocale,
+    saveBranding,
+    subscribeBranding,
+} from "@/lib/branding";
+import { readImageFile } from "@/lib/imageFile";
+
+const PLACEMENTS: { value: HeaderPlacement; label: string }[] = [
+    { value: "top", label: "Top" },
+    { value: "bottom", label: "Bottom" },
+    { value: "none", label: "Hidden" },
+];
+
+const MAX_LOGO_SIZE = 256; // px, longest side of the stored logo
+
+export default function BrandingPage() {
+    const branding = useSyncExternalStore(subscribeBranding, getBranding, getServerBranding);
+    const [localeDraft, setLocaleDraft] = useState<string | null>(null); // null shows the saved locale
+    const [error, setError] = useState<string | null>(null);
+
+    const update = (changes: Partial<BrandingSettings>) => saveBranding({ ...branding, ...changes });
+
+    const changeLocale = (value: string) => {
+        setLocaleDraft(value);
+        // Only a locale the browser knows is saved; the draft stays visible while typing
+        if (isValidLocale(value.trim())) update({ locale: value.trim() });
+    };
+
+    const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+        try {
+            update({ logo: await readImageFile(file, MAX_LOGO_SIZE) });
+            setError(null);
+        } catch (err) {
+            console.error("Failed to read logo", err);
+            setError(err instanceof Error ? err.message : "Logo could not be read");
+        }
+    };
+
+    const locale = localeDraft ?? branding.locale;
+    const localeInvalid = !isValidLocale(locale.trim());
+
+    return (
+        <main className={styles.container}>
+            <div className={styles.header}>
+                <h2>Event Branding</h2>
+                <button className="btn" onClick={() => { saveBranding(DEFAULT_BRANDING); setLocaleDraft(null); }}>
+                    Reset
+                </button>
+            </div>
+            <p className={styles.hint}>Applies to every layout and export. Strips already in progress keep the branding they started with.</p>
+
+            {/* Same arrangement as the strip header */}
+            <div className={styles.preview}>
+                {branding.placement !== "none" && (
+                    <div className={styles.previewHeader}>
+                        <span className={styles.previewStart}>
+                            {branding.logo && <img src={branding.logo} alt="Logo" className={styles.previewLogo} />}
+                            <span>{formatBrandDate(new Date(), branding)}</span>
+                        </span>
+                        <span className={styles.previewTitle}>{branding.title}</span>
+                    </div>
+                )}
+                {branding.footer.trim() && <div className={styles.previewFooter}>{branding.footer}</div>}
+            </div>
+
+            <div className={styles.form}>
+                <label className={styles.field}>
+                    <span>Title</span>
+                    <input
+                        type="text"
+                        value={branding.title}
+                        maxLength={30}
+                        onChange={(e) => update({ title: e.target.value })}
+                    />
+                </label>
+
+                <div className={styles.field}>
+                    <span>Logo</span>
+                    <div className={styles.logoRow}>
+                        <label className="btn">
+                            <Upload size={16} /> {branding.logo ? "Replace" : "Upload"}
+                            <input type="file" accept="image/*" onChange={handleLogo} hidden />
+                        </label>
+                        {branding.logo && (
+                            <button className="btn" onClick={() => update({ logo: null })} aria-label="Remove logo">
+                                <Trash2 size={16} />
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                <label className={styles.field}>
+                    <span>Header</span>
+                    <select value={branding.placement} onChange={(e) => update({ placement: e.target.value as HeaderPlacement })}>
+                        {PLACEMENTS.map((p) => (
+                            <option key={p.value} value={p.value}>{p.label}</option>
+                        ))}
+                    </select>
+                </label>
+
+                <label className={styles.field}>
+                    <span>Date</span>
+                    <select value={branding.dateFormat} onChange={(e) => update({ dateFormat: e.target.value as DateFormat })}>
+                        {DATE_FORMATS.map((f) => (
+                            <option key={f.value} value={f.value}>{f.label}</option>
+                        ))}
+                    </select>
+                </label>
+
+                <label className={styles.field}>
+                    <span>Locale</span>
+                    <input
+                        type="text"
+                        value={locale}
+                        placeholder="Browser default (e.g. en-GB, fr, ja-JP)"
+                        className={localeInvalid ? styles.invalid : undefined}
+                        onChange={(e) => changeLocale(e.target.value)}
+                        onBlur={() => setLocaleDraft(null)}
+                    />
+                </label>
+                {localeInvalid && <p className={styles.error}>Unknown locale; the last valid one is kept.</p>}
+
+                <label className={styles.field}>
+                    <span>Footer</span>
+                    <input
+                        type="text"
+                        value={branding.footer}
+                        maxLength={40}
+                        placeholder="e.g. #SamAndAlex2025"
+                        onChange={(e) => update({ footer: e.target.value })}
+                    />
+                </label>
+
+                {error && <p className={styles.error}>{error}</p>}
+            </div>
+        </main>
+    );
+}
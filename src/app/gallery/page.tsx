@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { FileText, Pencil, Trash2 } from "lucide-react";
+import styles from "./gallery.module.css";
+import { createContactSheet } from "@/lib/contactSheet";
+import { downloadBlob } from "@/lib/download";
+import { deleteSessions, listFinishedSessions, SessionRecord } from "@/lib/sessionStore";
+
+interface GalleryEntry {
+    session: SessionRecord;
+    thumbnailUrl: string | null;
+}
+
+export default function GalleryPage() {
+    const [entries, setEntries] = useState<GalleryEntry[] | null>(null); // null while loading
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [sheetProgress, setSheetProgress] = useState<string | null>(null); // Set while a contact sheet is built
+    const [sheetError, setSheetError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let created: GalleryEntry[] = [];
+        listFinishedSessions()
+            .then((sessions) => {
+                created = sessions.map((session) => ({
+                    session,
+                    thumbnailUrl: session.thumbnail ? URL.createObjectURL(session.thumbnail) : null,
+                }));
+                setEntries(created);
+            })
+            .catch((err) => {
+                console.error("Failed to load gallery", err);
+                setEntries([]);
+            });
+
+        return () => created.forEach((e) => e.thumbnailUrl && URL.revokeObjectURL(e.thumbnailUrl));
+    }, []);
+
+    const toggleSelected = (id: string) => {
+        setSelected((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const removeEntries = async (ids: string[]) => {
+        if (ids.length === 0) return;
+        const label = ids.length === 1 ? "this strip" : `${ids.length} strips`;
+        if (!window.confirm(`Delete ${label}? This can't be undone.`)) return;
+
+        try {
+            await deleteSessions(ids);
+        } catch (err) {
+            console.error("Failed to delete sessions", err);
+            return;
+        }
+        setEntries((prev) => prev && prev.filter((e) => !ids.includes(e.session.id)));
+        setSelected((prev) => new Set([...prev].filter((id) => !ids.includes(id))));
+    };
+
+    // The selected strips, or every strip when nothing is selected
+    const downloadContactSheet = async () => {
+        if (!entries) return;
+        const sessions = entries.map((e) => e.session).filter((s) => selected.size === 0 || selected.has(s.id));
+        setSheetProgress(`0/${sessions.length}`);
+        setSheetError(null);
+        try {
+            const pdf = await createContactSheet(sessions, (done, total) => setSheetProgress(`${done}/${total}`));
+            downloadBlob(pdf, `photobooth-contact-sheet-${Date.now()}.pdf`);
+        } catch (err) {
+            console.error("Contact sheet failed", err);
+            setSheetError(err instanceof Error ? err.message : "Contact sheet failed");
+        } finally {
+            setSheetProgress(null);
+        }
+    };
+
+    const allSelected = !!entries && entries.length > 0 && selected.size === entries.length;
+
+    return (
+        <main className={styles.container}>
+            <div className={styles.header}>
+                <h2>Gallery</h2>
+                {entries && entries.length > 0 && (
+                    <div className={styles.bulkActions}>
+                        <label className={styles.selectAll}>
+                            <input
+                                type="checkbox"
+                                checked={allSelected}
+                                onChange={() => setSelected(allSelected ? new Set() : new Set(entries.map((e) => e.session.id)))}
+                            />
+                            Select all
+                        </label>
+                        <button className="btn" onClick={downloadContactSheet} disabled={sheetProgress !== null}>
+                            <FileText size={16} />
+                            {sheetProgress !== null
+                                ? `Rendering ${sheetProgress}`
+                                : `Contact Sheet (${selected.size || entries.length})`}
+                        </button>
+                        <button className="btn" onClick={() => removeEntries([...selected])} disabled={selected.size === 0}>
+                            <Trash2 size={16} /> Delete ({selected.size})
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {sheetError && <p className={styles.error}>Contact sheet failed: {sheetError}</p>}
+
+            {entries === null && <p className={styles.empty}>Loading...</p>}
+
+            {entries && entries.length === 0 && (
+                <div className={styles.empty}>
+                    <p>No finished strips yet. Strips show up here once you download them.</p>
+                    <Link href="/booth" className="btn btn-primary">Start Booth</Link>
+                </div>
+            )}
+
+            {entries && entries.length > 0 && (
+                <div className={styles.grid}>
+                    {entries.map(({ session, thumbnailUrl }) => (
+                        <div
+                            key={session.id}
+                            className={`${styles.card} ${selected.has(session.id) ? styles.selectedCard : ""}`}
+                        >
+                            <input
+                                type="checkbox"
+                                className={styles.checkbox}
+                                checked={selected.has(session.id)}
+                                onChange={() => toggleSelected(session.id)}
+                                aria-label="Select strip"
+                            />
+                            <div className={styles.thumbnail}>
+                                {thumbnailUrl && <img src={thumbnailUrl} alt={`Strip from ${new Date(session.createdAt).toLocaleDateString()}`} />}
+                            </div>
+                            <div className={styles.meta}>
+                                <span className={styles.date}>{new Date(session.createdAt).toLocaleString()}</span>
+                                <span>{session.layout?.name} · {session.filter.name.toUpperCase()}</span>
+                            </div>
+                            <div className={styles.cardActions}>
+                                <Link href={`/booth?session=${session.id}`} className="btn btn-primary">
+                                    <Pencil size={14} /> Open
+                                </Link>
+                                <button className="btn" onClick={() => removeEntries([session.id])} aria-label="Delete strip">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </main>
+    );
+}
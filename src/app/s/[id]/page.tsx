@@ -0,0 +1,50 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Download, Film } from "lucide-react";
+import styles from "./share.module.css";
+import { getStrip } from "@/lib/stripStorage";
+
+interface SharePageProps {
+    params: Promise<{ id: string }>;
+}
+
+export const metadata: Metadata = {
+    title: "Your Photobooth Strip",
+};
+
+export default async function SharePage({ params }: SharePageProps) {
+    const { id } = await params;
+    const strip = await getStrip(id);
+    if (!strip) notFound();
+
+    const fileUrl = (file: "image" | "gif", download = false) =>
+        `/api/strips/${strip.id}?file=${file}${download ? "&download=1" : ""}`;
+
+    return (
+        <main className={styles.container}>
+            <h2>Your strip is ready!</h2>
+
+            <div className={styles.previews}>
+                <img src={fileUrl("image")} alt="Photo strip" className={styles.strip} />
+                {strip.hasGif && <img src={fileUrl("gif")} alt="Animated photo strip" className={styles.strip} />}
+            </div>
+
+            <div className={styles.actions}>
+                <a href={fileUrl("image", true)} className="btn btn-primary">
+                    <Download size={16} /> Save Photo
+                </a>
+                {strip.hasGif && (
+                    <a href={fileUrl("gif", true)} className="btn btn-primary">
+                        <Film size={16} /> Save GIF
+                    </a>
+                )}
+            </div>
+
+            {strip.expiresAt && (
+                <p className={styles.expiry}>
+                    Available until {new Date(strip.expiresAt).toLocaleString()}
+                </p>
+            )}
+        </main>
+    );
+}
@@ -1,26 +1,68 @@
 "use client";
 
-import React, { useRef, useState, useCallback, useEffect } from "react";
+import React, { useRef, useState, useCallback, useEffect, useMemo } from "react";
 import Webcam from "react-webcam";
+import { ArrowUp, Check, Hand, RotateCcw } from "lucide-react";
 import styles from "./Camera.module.css";
+import CaptureControls from "./CaptureControls";
+import FilterControls from "./FilterControls";
+import FilteredImage, { useLut } from "./FilteredImage";
+import ChromaKeyControls, { useBackground } from "./ChromaKeyControls";
+import { applyFilter, DEFAULT_FILTER, FilterSettings, isNeutralFilter } from "@/lib/filters";
+import { LayoutTemplate } from "@/lib/layouts";
+import { ChromaKeySettings, ChromaKeyer, createChromaKeyer } from "@/lib/chromaKey";
+import { getCropRect, getSlotAspect, getVideoConstraints } from "@/lib/cameraFormat";
+import { isTriggerKey, KioskSettings } from "@/lib/kiosk";
+import { createMotionTrigger, HandsFreeOptions, HOTSPOT, MotionTrigger } from "@/lib/motionTrigger";
+import { playBeep, playShutter, unlockAudio } from "@/lib/sounds";
+import { Burst, BURST_SECONDS, BurstOptions, createFrameRing, FrameRing, grabFrame, releaseBursts, releaseFrame, SNAP_QUALITY } from "@/lib/frames";
 
-export type FilterType = "normal" | "bw" | "soft" | "vintage";
+// Longest side of the live preview; the filter runs per pixel every frame
+const PREVIEW_MAX_SIZE = 480;
+
+const DEFAULT_BURST: BurstOptions = { fps: 10, size: 640, quality: 0.8 };
 
 interface CameraProps {
-    photoCount: number;
-    onComplete: (photos: string[][], filter: FilterType) => void; // Changed to array of arrays
+    layout: LayoutTemplate;
+    onComplete: (photos: Burst[], filter: FilterSettings) => void; // The frames belong to the caller from here on
     timerDuration?: number; // seconds
+    pauseDuration?: number; // seconds between shots
+    getReadyDuration?: number; // seconds before the first shot
+    sound?: boolean; // countdown beeps and shutter sound
+    lookHere?: boolean; // "Look here!" cue on the last second
+    burstOptions?: BurstOptions;
+    kiosk?: KioskSettings; // Set in kiosk mode: a tap, space or the pedal drives the flow
+    handsFree?: HandsFreeOptions; // Start from a wave or a held pose instead of the button
+    chromaKey?: ChromaKeySettings; // Green-screen replacement for the preview and every captured frame
+    onBusyChange?: (busy: boolean) => void; // True while capturing, so kiosk mode doesn't time out
 }
 
-export default function Camera({ photoCount, onComplete, timerDuration = 3 }: CameraProps) {
+export default function Camera({
+    layout,
+    onComplete,
+    timerDuration = 3,
+    pauseDuration = 0,
+    getReadyDuration = 0,
+    sound = false,
+    lookHere = false,
+    burstOptions = DEFAULT_BURST,
+    kiosk,
+    handsFree,
+    chromaKey,
+    onBusyChange,
+}: CameraProps) {
+    const photoCount = layout.slots.length;
     const webcamRef = useRef<Webcam>(null);
-    const [photos, setPhotos] = useState<string[][]>([]); // Array of bursts
+    const [photos, setPhotos] = useState<Burst[]>([]);
     const [isCapturing, setIsCapturing] = useState(false);
     const [countdown, setCountdown] = useState<number | null>(null);
+    const [cue, setCue] = useState<string | null>(null); // Shown while waiting before a countdown
     const [flash, setFlash] = useState(false);
     const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
     const [selectedDeviceId, setSelectedDeviceId] = useState<string | undefined>(undefined);
-    const [filter, setFilter] = useState<FilterType>("normal");
+    const [filter, setFilter] = useState<FilterSettings>(DEFAULT_FILTER);
+    const [retakeIndex, setRetakeIndex] = useState<number | null>(null); // Slot being re-shot, if any
+    const [previewSize, setPreviewSize] = useState<{ width: number; height: number } | null>(null);
 
     const handleDevices = useCallback((mediaDevices: MediaDeviceInfo[]) => {
         const videoDevices = mediaDevices.filter(({ kind }) => kind === "videoinput");
@@ -30,101 +72,361 @@ export default function Camera({ photoCount, onComplete, timerDuration = 3 }: Ca
         }
     }, [selectedDeviceId]);
 
-    const burstRef = useRef<string[]>([]);
+    const grabCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    // Latest photos for cleanup code; frames are released here until handed to onComplete
+    const photosRef = useRef<Burst[]>([]);
+    const handedOffRef = useRef(false);
+    const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+    const lut = useLut(filter.lutId);
+    // Shape of the slot being shot, for the preview filter; null shows the whole frame
+    const previewAspectRef = useRef<number | null>(null);
+    // Hands-free trigger, set only while waiting for a guest; read by the preview loop
+    const triggerRef = useRef<MotionTrigger | null>(null);
+    const startSessionRef = useRef<() => void>(() => undefined);
 
+    const background = useBackground(chromaKey?.enabled ? chromaKey.backgroundId : null);
+    const keyer = useMemo(
+        () => (chromaKey?.enabled && background ? createChromaKeyer(chromaKey, background) : null),
+        [chromaKey, background]
+    );
+    // Read at grab time, so changing the key mid-session doesn't restart the capture
+    const keyerRef = useRef<ChromaKeyer | null>(null);
     useEffect(() => {
-        if (isCapturing && photos.length === photoCount) {
-            setIsCapturing(false);
-            onComplete(photos, filter);
-        }
-    }, [photos, photoCount, isCapturing, onComplete, filter]);
+        keyerRef.current = keyer;
+    }, [keyer]);
 
+    // Live preview: mirror each video frame onto the canvas and run the same
+    // pixel filter the exports use
     useEffect(() => {
+        let frameId: number;
+        const draw = () => {
+            frameId = requestAnimationFrame(draw);
+            const video = webcamRef.current?.video;
+            const canvas = previewCanvasRef.current;
+            if (!video || !canvas || video.readyState < 2 || !video.videoWidth) return;
+
+            const ratio = Math.min(1, PREVIEW_MAX_SIZE / Math.max(video.videoWidth, video.videoHeight));
+            const width = Math.round(video.videoWidth * ratio);
+            const height = Math.round(video.videoHeight * ratio);
+            if (canvas.width !== width || canvas.height !== height) {
+                canvas.width = width;
+                canvas.height = height;
+                setPreviewSize({ width, height });
+            }
+            const ctx = canvas.getContext("2d", { willReadFrequently: true });
+            if (!ctx) return;
+
+            ctx.setTransform(-1, 0, 0, 1, width, 0);
+            ctx.drawImage(video, 0, 0, width, height);
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            const pixels = ctx.getImageData(0, 0, width, height);
+            // Motion is judged on the raw frame, before a filter can exaggerate noise
+            if (triggerRef.current?.update(pixels, performance.now())) {
+                triggerRef.current = null;
+                startSessionRef.current();
+            }
+            keyer?.(pixels);
+            ctx.putImageData(pixels, 0, 0);
+
+            // Filter only what the slot keeps, so the vignette and grain sit where the export puts them
+            if (isNeutralFilter(filter)) return;
+            const aspect = previewAspectRef.current;
+            const crop = aspect ? getCropRect(width, height, aspect) : { x: 0, y: 0, width, height };
+            const x = Math.round(crop.x);
+            const y = Math.round(crop.y);
+            const region = ctx.getImageData(x, y, Math.round(crop.width), Math.round(crop.height));
+            applyFilter(region, filter, lut);
+            ctx.putImageData(region, x, y);
+        };
+        frameId = requestAnimationFrame(draw);
+        return () => cancelAnimationFrame(frameId);
+    }, [filter, lut, keyer]);
+
+    useEffect(() => {
+        let delayTimer: NodeJS.Timeout;
         let countdownTimer: NodeJS.Timeout;
         let captureTimer: NodeJS.Timeout;
+        let ring: FrameRing | null = null;
+        let snapped = false;
+        let cancelled = false;
 
-        if (isCapturing && photos.length < photoCount) {
-            setCountdown(timerDuration);
-            let currentCount = timerDuration;
-            burstRef.current = []; // Reset burst for new photo
-
-            // Start capturing frames immediately (pre-capture)
-            // This captures the "getting ready" moments
-            captureTimer = setInterval(() => {
-                const imageSrc = webcamRef.current?.getScreenshot();
-                if (imageSrc && imageSrc.startsWith("data:image/")) {
-                    burstRef.current.push(imageSrc);
-                }
-            }, 100); // 10fps
-
-            // Start countdown
-            countdownTimer = setInterval(() => {
-                currentCount--;
-                setCountdown(currentCount);
-
-                if (currentCount <= 0) {
-                    // STOP everything
-                    clearInterval(countdownTimer);
-                    clearInterval(captureTimer);
-
-                    // Final Snap (The actual photo)
-                    const finalSnap = webcamRef.current?.getScreenshot();
-                    if (finalSnap && finalSnap.startsWith("data:image/")) {
-                        burstRef.current.push(finalSnap);
-                    }
+        if (isCapturing && (retakeIndex !== null || photos.length < photoCount)) {
+            // A retake replaces one slot, otherwise we fill the next empty one
+            const slot = retakeIndex ?? photos.length;
+            // Groups need time to get in place before the first shot and between poses
+            const delay = retakeIndex !== null ? 0 : slot === 0 ? getReadyDuration : pauseDuration;
+            // Frames are cropped to the slot, so the strip shows exactly what the guide showed
+            const aspect = getSlotAspect(layout, slot);
+
+            const startCountdown = () => {
+                setCue(null);
+                setCountdown(timerDuration);
+                if (sound) playBeep(timerDuration === 1);
+                let currentCount = timerDuration;
+                // Only the last few seconds are kept, however long the countdown
+                ring = createFrameRing(Math.ceil(burstOptions.fps * BURST_SECONDS));
+                const burst = ring;
+                if (!grabCanvasRef.current) grabCanvasRef.current = document.createElement("canvas");
+                const canvas = grabCanvasRef.current;
+                let grabbing = false;
+
+                // Start capturing frames immediately (pre-capture)
+                // This captures the "getting ready" moments
+                captureTimer = setInterval(() => {
+                    const video = webcamRef.current?.video;
+                    // Skip a tick rather than queue encodes on slow devices
+                    if (!video || grabbing) return;
+                    grabbing = true;
+                    grabFrame(video, canvas, aspect, burstOptions.size, burstOptions.quality, keyerRef.current)
+                        .then((frame) => {
+                            if (!frame) return;
+                            // Frames that finish encoding after the snap are dropped
+                            if (snapped) releaseFrame(frame);
+                            else burst.push(frame);
+                        })
+                        .catch((err) => console.error("Failed to capture frame", err))
+                        .finally(() => {
+                            grabbing = false;
+                        });
+                }, 1000 / burstOptions.fps);
+
+                // Start countdown
+                countdownTimer = setInterval(() => {
+                    currentCount--;
+                    setCountdown(currentCount);
+                    if (sound && currentCount > 0) playBeep(currentCount === 1);
+
+                    if (currentCount <= 0) {
+                        // STOP everything
+                        clearInterval(countdownTimer);
+                        clearInterval(captureTimer);
+                        snapped = true;
+
+                        // Flash immediately
+                        setFlash(true);
+                        setTimeout(() => setFlash(false), 100);
+                        if (sound) playShutter();
 
-                    // Flash immediately
-                    setFlash(true);
-                    setTimeout(() => setFlash(false), 100);
+                        // Final Snap (The actual photo), at the camera's full resolution
+                        const video = webcamRef.current?.video;
+                        const snap = video ? grabFrame(video, canvas, aspect, null, SNAP_QUALITY, keyerRef.current) : Promise.resolve(null);
+                        snap.catch((err) => {
+                            console.error("Failed to capture photo", err);
+                            return null;
+                        }).then((finalSnap) => {
+                            const frames = burst.take();
+                            if (cancelled) {
+                                frames.forEach(releaseFrame);
+                                if (finalSnap) releaseFrame(finalSnap);
+                                return;
+                            }
+                            if (finalSnap) frames.push(finalSnap);
 
-                    // Save the burst
-                    setPhotos((prev) => [...prev, [...burstRef.current]]);
-                }
-            }, 1000);
+                            // Save the burst, releasing the one it replaces on a retake
+                            const replaced = photosRef.current[slot];
+                            if (replaced) releaseBursts([replaced]);
+                            setPhotos((prev) => {
+                                const next = [...prev];
+                                next[slot] = frames;
+                                return next;
+                            });
+
+                            // Stop after a single retake or once every slot is filled; the user reviews next
+                            if (retakeIndex !== null || slot === photoCount - 1) {
+                                setIsCapturing(false);
+                                setRetakeIndex(null);
+                            }
+                        });
+                    }
+                }, 1000);
+            };
+
+            if (delay > 0) {
+                setCountdown(null);
+                setCue(slot === 0 ? "Get ready!" : "Next pose!");
+                delayTimer = setTimeout(startCountdown, delay * 1000);
+            } else {
+                startCountdown();
+            }
         }
 
         return () => {
+            clearTimeout(delayTimer);
             clearInterval(countdownTimer);
             clearInterval(captureTimer);
+            cancelled = true;
+            snapped = true;
+            ring?.clear();
         };
-    }, [isCapturing, photos.length, photoCount, timerDuration]);
+    }, [isCapturing, photos.length, photoCount, layout, timerDuration, pauseDuration, getReadyDuration, sound, retakeIndex, burstOptions]);
+
+    useEffect(() => {
+        photosRef.current = photos;
+    }, [photos]);
+
+    // Frames not yet handed to the booth are released when the camera goes away
+    useEffect(() => () => {
+        if (!handedOffRef.current) releaseBursts(photosRef.current);
+    }, []);
 
-    const startSession = () => {
+    const complete = useCallback(() => {
+        handedOffRef.current = true;
+        onComplete(photos, filter);
+    }, [onComplete, photos, filter]);
+
+    const startSession = useCallback(() => {
+        // From a tap or key press this lets the beeps play later; hands-free starts
+        // rely on the unlock when the trigger was armed
+        if (sound) unlockAudio();
+        releaseBursts(photosRef.current);
+        photosRef.current = [];
         setPhotos([]);
+        setRetakeIndex(null);
         setIsCapturing(true);
-    };
+    }, [sound]);
 
-    const getFilterStyle = (f: FilterType) => {
-        switch (f) {
-            case "bw": return { filter: "grayscale(100%) contrast(1.2)" };
-            case "soft": return { filter: "brightness(1.1) contrast(0.9) saturate(0.8) blur(0.5px)" };
-            case "vintage": return { filter: "sepia(0.5) contrast(1.1) saturate(0.8)" };
-            default: return {};
-        }
+    // Re-runs the countdown and burst for one slot, keeping the chosen filter and camera
+    const retake = (index: number) => {
+        if (sound) unlockAudio();
+        setRetakeIndex(index);
+        setIsCapturing(true);
     };
 
+    const isReviewing = !isCapturing && photos.length === photoCount;
+
+    useEffect(() => {
+        if (!onBusyChange) return;
+        onBusyChange(isCapturing);
+        return () => onBusyChange(false);
+    }, [isCapturing, onBusyChange]);
+    const isIdle = !isCapturing && photos.length === 0;
+
+    // Crop guide for the slot being shot next, as a share of the preview
+    const guideSlot = isReviewing ? null : retakeIndex ?? Math.min(photos.length, photoCount - 1);
+    const guide = previewSize && guideSlot !== null
+        ? getCropRect(previewSize.width, previewSize.height, getSlotAspect(layout, guideSlot))
+        : null;
+
+    useEffect(() => {
+        previewAspectRef.current = guideSlot !== null ? getSlotAspect(layout, guideSlot) : null;
+    }, [layout, guideSlot]);
+    const handsFreeMode = isIdle && handsFree ? handsFree.mode : "off";
+
+    useEffect(() => {
+        startSessionRef.current = startSession;
+    }, [startSession]);
+
+    // A hands-free start isn't a user gesture, so the browser would keep the beeps
+    // muted; unlock audio on the first tap or key press while it's armed
+    const handsFreeArmed = !!handsFree && handsFree.mode !== "off";
+    useEffect(() => {
+        if (!sound || !handsFreeArmed) return;
+        const unlock = () => {
+            unlockAudio();
+            window.removeEventListener("pointerdown", unlock);
+            window.removeEventListener("keydown", unlock);
+        };
+        window.addEventListener("pointerdown", unlock);
+        window.addEventListener("keydown", unlock);
+        return () => {
+            window.removeEventListener("pointerdown", unlock);
+            window.removeEventListener("keydown", unlock);
+        };
+    }, [sound, handsFreeArmed]);
+
+    // A fresh trigger for every wait, so the last session's motion doesn't carry over
+    useEffect(() => {
+        triggerRef.current = handsFree && isIdle && handsFree.mode !== "off" ? createMotionTrigger(handsFree) : null;
+        return () => {
+            triggerRef.current = null;
+        };
+    }, [handsFree, isIdle]);
+
+    const videoConstraints = useMemo(() => getVideoConstraints(layout, selectedDeviceId), [layout, selectedDeviceId]);
+
+    // Kiosk: space or the pedal starts the capture, then accepts the shots
+    useEffect(() => {
+        if (!kiosk) return;
+        const handleKey = (e: KeyboardEvent) => {
+            if (!isTriggerKey(e, kiosk) || e.repeat) return;
+            if (isIdle) {
+                e.preventDefault();
+                startSession();
+            } else if (isReviewing) {
+                e.preventDefault();
+                complete();
+            }
+        };
+        window.addEventListener("keydown", handleKey);
+        return () => window.removeEventListener("keydown", handleKey);
+    }, [kiosk, isIdle, isReviewing, complete, startSession]);
+
     return (
         <div className={styles.container}>
-            <div className={styles.webcamWrapper}>
+            <div
+                className={styles.webcamWrapper}
+                style={previewSize ? { aspectRatio: `${previewSize.width} / ${previewSize.height}` } : undefined}
+                onClick={kiosk && isIdle ? startSession : undefined}
+            >
                 <Webcam
                     audio={false}
                     ref={webcamRef}
                     screenshotFormat="image/jpeg"
-                    className={styles.webcam}
+                    className={`${styles.webcam} ${styles.hiddenVideo}`}
                     mirrored={true}
-                    videoConstraints={{ deviceId: selectedDeviceId }}
-                    style={getFilterStyle(filter)}
+                    videoConstraints={videoConstraints}
                 />
-                {countdown !== null && countdown > 0 && isCapturing && (
+                <canvas ref={previewCanvasRef} className={styles.livePreview} />
+                {guide && previewSize && (
+                    <div
+                        className={styles.cropGuide}
+                        style={{
+                            left: `${(guide.x / previewSize.width) * 100}%`,
+                            top: `${(guide.y / previewSize.height) * 100}%`,
+                            width: `${(guide.width / previewSize.width) * 100}%`,
+                            height: `${(guide.height / previewSize.height) * 100}%`,
+                        }}
+                    />
+                )}
+                {countdown !== null && countdown > 0 && isCapturing && !(lookHere && countdown === 1) && (
                     <div className={styles.countdownOverlay}>
                         {countdown}
                     </div>
                 )}
+                {cue && isCapturing && (
+                    <div className={styles.cueOverlay}>{cue}</div>
+                )}
+                {lookHere && countdown === 1 && isCapturing && (
+                    <div className={styles.lookHere}>
+                        <ArrowUp size={48} strokeWidth={3} />
+                        Look here!
+                    </div>
+                )}
                 {flash && <div className={styles.flash} />}
+                {handsFreeMode === "hotspot" && (
+                    <div
+                        className={styles.hotspot}
+                        style={{
+                            left: `${HOTSPOT.x * 100}%`,
+                            top: `${HOTSPOT.y * 100}%`,
+                            width: `${HOTSPOT.width * 100}%`,
+                            height: `${HOTSPOT.height * 100}%`,
+                        }}
+                    >
+                        <Hand size={28} />
+                        Wave here
+                    </div>
+                )}
+                {handsFreeMode === "still" && (
+                    <div className={styles.handsFreeHint}>Strike a pose and hold still</div>
+                )}
+                {kiosk && isIdle && (
+                    <div className={styles.tapPrompt}>Tap to start</div>
+                )}
             </div>
 
             <div className={styles.controls}>
-                {!isCapturing && photos.length === 0 && (
+                {isIdle && (
                     <>
                         <div className={styles.settingsRow}>
                             <div className={styles.deviceSelect}>
@@ -144,18 +446,15 @@ export default function Camera({ photoCount, onComplete, timerDuration = 3 }: Ca
                             </div>
                             <div className={styles.filterSelect}>
                                 <label>Filter: </label>
-                                <div className={styles.filterButtons}>
-                                    {(["normal", "bw", "soft", "vintage"] as FilterType[]).map((f) => (
-                                        <button
-                                            key={f}
-                                            className={`${styles.filterBtn} ${filter === f ? styles.activeFilter : ''}`}
-                                            onClick={() => setFilter(f)}
-                                        >
-                                            {f.toUpperCase()}
-                                        </button>
-                                    ))}
-                                </div>
+                                <FilterControls value={filter} onChange={setFilter} />
                             </div>
+                            {/* Operator settings stay out of guests' reach in kiosk mode */}
+                            {!kiosk && (
+                                <>
+                                    <CaptureControls />
+                                    <ChromaKeyControls />
+                                </>
+                            )}
                         </div>
                         <button className="btn btn-primary" onClick={startSession}>
                             Start Capture
@@ -163,14 +462,43 @@ export default function Camera({ photoCount, onComplete, timerDuration = 3 }: Ca
                     </>
                 )}
                 {isCapturing && (
-                    <p>Taking photo {photos.length + 1} of {photoCount}...</p>
+                    <p>
+                        {retakeIndex !== null
+                            ? `Retaking photo ${retakeIndex + 1}...`
+                            : `Taking photo ${photos.length + 1} of ${photoCount}...`}
+                    </p>
+                )}
+                {isReviewing && (
+                    <>
+                        <p>Happy with these? Retake any shot you don&apos;t like.</p>
+                        <div className={styles.reviewActions}>
+                            <button className="btn" onClick={startSession}>
+                                <RotateCcw size={16} /> Retake All
+                            </button>
+                            <button className="btn btn-primary" onClick={complete}>
+                                <Check size={16} /> Use These
+                            </button>
+                        </div>
+                    </>
                 )}
             </div>
 
             {/* Preview of taken shots (Last frame of each burst - The Snap) */}
             <div className={styles.stripPreview}>
                 {photos.map((burst, idx) => (
-                    <img key={idx} src={burst[burst.length - 1]} alt={`shot ${idx}`} className={styles.thumb} style={getFilterStyle(filter)} />
+                    <div key={idx} className={styles.thumbWrapper}>
+                        <FilteredImage
+                            frame={burst[burst.length - 1]}
+                            filter={filter}
+                            alt={`shot ${idx}`}
+                            className={`${styles.thumb} ${retakeIndex === idx ? styles.retakingThumb : ''}`}
+                        />
+                        {isReviewing && (
+                            <button className={styles.retakeBtn} onClick={() => retake(idx)} aria-label={`Retake photo ${idx + 1}`}>
+                                <RotateCcw size={14} />
+                            </button>
+                        )}
+                    </div>
                 ))}
             </div>
         </div>
@@ -0,0 +1,127 @@
+"use client";
+
+import React, { useSyncExternalStore } from "react";
+import styles from "./CaptureControls.module.css";
+import {
+    BURST_FPS_OPTIONS,
+    BURST_QUALITY_OPTIONS,
+    BURST_SIZE_OPTIONS,
+    CaptureSettings,
+    COUNTDOWN_OPTIONS,
+    GET_READY_OPTIONS,
+    getCapture,
+    getServerCapture,
+    HANDS_FREE_OPTIONS,
+    PAUSE_OPTIONS,
+    saveCapture,
+    SENSITIVITY_OPTIONS,
+    STILL_SECONDS_OPTIONS,
+    subscribeCapture,
+} from "@/lib/captureSettings";
+import { HandsFreeMode } from "@/lib/motionTrigger";
+import { unlockAudio } from "@/lib/sounds";
+
+const formatSeconds = (seconds: number) => (seconds === 0 ? "None" : `${seconds}s`);
+
+// Timing and cue settings on the camera screen; the booth passes them to the camera
+export default function CaptureControls() {
+    const settings = useSyncExternalStore(subscribeCapture, getCapture, getServerCapture);
+    const update = (changes: Partial<CaptureSettings>) => saveCapture({ ...settings, ...changes });
+
+    // Choosing a mode is a user gesture, unlike the hands-free start itself, so unlock audio for the beeps now
+    const setHandsFree = (handsFree: HandsFreeMode) => {
+        if (settings.sound) unlockAudio();
+        update({ handsFree });
+    };
+
+    return (
+        <div className={styles.captureControls}>
+            <label className={styles.field}>
+                <span>Countdown</span>
+                <select className={styles.select} value={settings.countdown} onChange={(e) => update({ countdown: Number(e.target.value) })}>
+                    {COUNTDOWN_OPTIONS.map((s) => (
+                        <option key={s} value={s}>{formatSeconds(s)}</option>
+                    ))}
+                </select>
+            </label>
+            <label className={styles.field}>
+                <span>Between shots</span>
+                <select className={styles.select} value={settings.pause} onChange={(e) => update({ pause: Number(e.target.value) })}>
+                    {PAUSE_OPTIONS.map((s) => (
+                        <option key={s} value={s}>{formatSeconds(s)}</option>
+                    ))}
+                </select>
+            </label>
+            <label className={styles.field}>
+                <span>Get ready</span>
+                <select className={styles.select} value={settings.getReady} onChange={(e) => update({ getReady: Number(e.target.value) })}>
+                    {GET_READY_OPTIONS.map((s) => (
+                        <option key={s} value={s}>{formatSeconds(s)}</option>
+                    ))}
+                </select>
+            </label>
+            <label className={styles.field}>
+                <span>Motion fps</span>
+                <select className={styles.select} value={settings.burstFps} onChange={(e) => update({ burstFps: Number(e.target.value) })}>
+                    {BURST_FPS_OPTIONS.map((fps) => (
+                        <option key={fps} value={fps}>{fps} fps</option>
+                    ))}
+                </select>
+            </label>
+            <label className={styles.field}>
+                <span>Motion size</span>
+                <select className={styles.select} value={settings.burstSize} onChange={(e) => update({ burstSize: Number(e.target.value) })}>
+                    {BURST_SIZE_OPTIONS.map((size) => (
+                        <option key={size} value={size}>{size}px</option>
+                    ))}
+                </select>
+            </label>
+            <label className={styles.field}>
+                <span>Quality</span>
+                <select className={styles.select} value={settings.burstQuality} onChange={(e) => update({ burstQuality: Number(e.target.value) })}>
+                    {BURST_QUALITY_OPTIONS.map((q) => (
+                        <option key={q} value={q}>{Math.round(q * 100)}%</option>
+                    ))}
+                </select>
+            </label>
+            <label className={styles.field}>
+                <span>Hands-free start</span>
+                <select className={styles.select} value={settings.handsFree} onChange={(e) => setHandsFree(e.target.value as HandsFreeMode)}>
+                    {HANDS_FREE_OPTIONS.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+            </label>
+            {settings.handsFree !== "off" && (
+                <label className={styles.field}>
+                    <span>Sensitivity</span>
+                    <select className={styles.select} value={settings.sensitivity} onChange={(e) => update({ sensitivity: Number(e.target.value) })}>
+                        {SENSITIVITY_OPTIONS.map(({ value, label }) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                </label>
+            )}
+            {settings.handsFree === "still" && (
+                <label className={styles.field}>
+                    <span>Hold for</span>
+                    <select className={styles.select} value={settings.stillSeconds} onChange={(e) => update({ stillSeconds: Number(e.target.value) })}>
+                        {STILL_SECONDS_OPTIONS.map((s) => (
+                            <option key={s} value={s}>{formatSeconds(s)}</option>
+                        ))}
+                    </select>
+                </label>
+            )}
+            <div className={styles.toggles}>
+                <label>
+                    <input type="checkbox" checked={settings.sound} onChange={(e) => update({ sound: e.target.checked })} />
+                    Sounds
+                </label>
+                <label>
+                    <input type="checkbox" checked={settings.lookHere} onChange={(e) => update({ lookHere: e.target.checked })} />
+                    &quot;Look here!&quot; cue
+                </label>
+            </div>
+        </div>
+    );
+}
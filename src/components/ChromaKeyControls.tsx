@@ -0,0 +1,134 @@
+"use client";
+
+import React, { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { Upload } from "lucide-react";
+import styles from "./ChromaKeyControls.module.css";
+import {
+    BUNDLED_BACKGROUNDS,
+    ChromaKeySettings,
+    getChromaKey,
+    getServerChromaKey,
+    importBackgroundFile,
+    KEY_COLORS,
+    loadBackground,
+    saveChromaKey,
+    subscribeChromaKey,
+} from "@/lib/chromaKey";
+
+/** The decoded background for `id`, or null while it loads. */
+export function useBackground(id: string | null): ImageBitmap | null {
+    const [background, setBackground] = useState<{ id: string; bitmap: ImageBitmap | null } | null>(null);
+
+    useEffect(() => {
+        if (!id) return;
+        let cancelled = false;
+        loadBackground(id).then((bitmap) => {
+            if (!cancelled) setBackground({ id, bitmap });
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [id]);
+
+    // Don't key onto the previous background while the next one loads
+    return id && background && background.id === id ? background.bitmap : null;
+}
+
+// Green-screen settings on the camera screen; the booth passes them to the camera
+export default function ChromaKeyControls() {
+    const settings = useSyncExternalStore(subscribeChromaKey, getChromaKey, getServerChromaKey);
+    // Read afresh, an upload may finish after other changes
+    const update = (changes: Partial<ChromaKeySettings>) => saveChromaKey({ ...getChromaKey(), ...changes });
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ""; // Let the same file be picked again
+        if (!file) return;
+        try {
+            const id = await importBackgroundFile(file);
+            setError(null);
+            update({ backgroundId: id, customBackgroundId: id });
+        } catch (err) {
+            console.error("Failed to load background:", err);
+            setError(err instanceof Error ? err.message : "Could not load that image");
+        }
+    };
+
+    return (
+        <div className={styles.chromaKeyControls}>
+            <label className={styles.toggle}>
+                <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+                Green screen
+            </label>
+
+            {settings.enabled && (
+                <>
+                    <div className={styles.row}>
+                        <span>Backdrop</span>
+                        {KEY_COLORS.map(({ name, color }) => (
+                            <button
+                                key={color}
+                                className={`${styles.swatch} ${settings.color === color ? styles.activeSwatch : ""}`}
+                                style={{ background: color }}
+                                onClick={() => update({ color })}
+                                aria-label={name}
+                                title={name}
+                            />
+                        ))}
+                        <input
+                            type="color"
+                            className={styles.colorInput}
+                            value={settings.color}
+                            onChange={(e) => update({ color: e.target.value })}
+                            aria-label="Backdrop colour"
+                        />
+                    </div>
+                    <label className={styles.sliderRow}>
+                        <span>Tolerance</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={settings.tolerance}
+                            onChange={(e) => update({ tolerance: Number(e.target.value) })}
+                        />
+                        <span className={styles.sliderValue}>{settings.tolerance}</span>
+                    </label>
+                    <label className={styles.sliderRow}>
+                        <span>Spill</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={settings.spill}
+                            onChange={(e) => update({ spill: Number(e.target.value) })}
+                        />
+                        <span className={styles.sliderValue}>{settings.spill}</span>
+                    </label>
+                    <div className={styles.row}>
+                        <span>Background</span>
+                        <select
+                            className={styles.select}
+                            value={settings.backgroundId}
+                            onChange={(e) => update({ backgroundId: e.target.value })}
+                        >
+                            {BUNDLED_BACKGROUNDS.map(({ id, name }) => (
+                                <option key={id} value={id}>{name}</option>
+                            ))}
+                            {settings.customBackgroundId && (
+                                <option value={settings.customBackgroundId}>Uploaded image</option>
+                            )}
+                        </select>
+                        <button className={styles.uploadBtn} onClick={() => fileInputRef.current?.click()}>
+                            <Upload size={12} /> Upload
+                        </button>
+                        <input ref={fileInputRef} type="file" accept="image/*" hidden onChange={handleFile} />
+                    </div>
+                    {error && <p className={styles.error}>{error}</p>}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import React, { useRef, useState, useSyncExternalStore } from "react";
+import { Save, SlidersHorizontal, Upload, X } from "lucide-react";
+import styles from "./FilterControls.module.css";
+import { useLut } from "./FilteredImage";
+import {
+    addFilterPreset,
+    getFilterPresets,
+    getServerFilterPresets,
+    importLutFile,
+    removeFilterPreset,
+    subscribeFilterPresets,
+} from "@/lib/filterPresets";
+import { BUILT_IN_PRESETS, FILTER_PARAMS, FilterParam, FilterPreset, FilterSettings, presetToSettings } from "@/lib/filters";
+
+interface FilterControlsProps {
+    value: FilterSettings;
+    onChange: (filter: FilterSettings) => void;
+}
+
+const CUSTOM_NAME = "Custom";
+
+export default function FilterControls({ value, onChange }: FilterControlsProps) {
+    const savedPresets = useSyncExternalStore(subscribeFilterPresets, getFilterPresets, getServerFilterPresets);
+    const lut = useLut(value.lutId);
+    const [showAdjust, setShowAdjust] = useState(false);
+    const [presetName, setPresetName] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const lutInputRef = useRef<HTMLInputElement>(null);
+
+    const selectPreset = (preset: FilterPreset) => {
+        setError(null);
+        onChange(presetToSettings(preset));
+    };
+
+    // Any manual tweak turns the settings into an unsaved custom filter
+    const setParam = (key: FilterParam, amount: number) => {
+        onChange({ ...value, [key]: amount, name: CUSTOM_NAME });
+    };
+
+    const handleLutFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ""; // Let the same file be picked again
+        if (!file) return;
+        try {
+            const imported = await importLutFile(file);
+            setError(null);
+            onChange({ ...value, lutId: imported.id, name: CUSTOM_NAME });
+        } catch (err) {
+            console.error("Failed to load LUT:", err);
+            setError(err instanceof Error ? err.message : "Could not load that LUT");
+        }
+    };
+
+    const savePreset = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        if (BUILT_IN_PRESETS.some((p) => p.name.toLowerCase() === name.toLowerCase())) {
+            setError(`"${name}" is a built-in preset`);
+            return;
+        }
+        addFilterPreset(name, value);
+        setError(null);
+        setPresetName("");
+        onChange({ ...value, name });
+    };
+
+    return (
+        <div className={styles.filterControls}>
+            <div className={styles.filterButtons}>
+                {BUILT_IN_PRESETS.map((preset) => (
+                    <button
+                        key={preset.id}
+                        className={`${styles.filterBtn} ${value.name === preset.name ? styles.activeFilter : ''}`}
+                        onClick={() => selectPreset(preset)}
+                    >
+                        {preset.name.toUpperCase()}
+                    </button>
+                ))}
+                {savedPresets.map((preset) => (
+                    <span key={preset.id} className={styles.savedPreset}>
+                        <button
+                            className={`${styles.filterBtn} ${value.name === preset.name ? styles.activeFilter : ''}`}
+                            onClick={() => selectPreset(preset)}
+                        >
+                            {preset.name.toUpperCase()}
+                        </button>
+                        <button
+                            className={styles.removeBtn}
+                            onClick={() => removeFilterPreset(preset.id)}
+                            aria-label={`Remove ${preset.name} preset`}
+                        >
+                            <X size={12} />
+                        </button>
+                    </span>
+                ))}
+                <button
+                    className={`${styles.filterBtn} ${showAdjust ? styles.activeFilter : ''}`}
+                    onClick={() => setShowAdjust(!showAdjust)}
+                    aria-expanded={showAdjust}
+                >
+                    <SlidersHorizontal size={12} /> ADJUST
+                </button>
+            </div>
+
+            {showAdjust && (
+                <div className={styles.adjustPanel}>
+                    {FILTER_PARAMS.map((param) => (
+                        <label key={param.key} className={styles.sliderRow}>
+                            <span>{param.label}</span>
+                            <input
+                                type="range"
+                                min={param.min}
+                                max={param.max}
+                                step={param.step}
+                                value={value[param.key]}
+                                onChange={(e) => setParam(param.key, Number(e.target.value))}
+                            />
+                            <span className={styles.sliderValue}>{value[param.key].toFixed(2)}</span>
+                        </label>
+                    ))}
+
+                    <div className={styles.lutRow}>
+                        <span>LUT: {value.lutId ? lut?.name ?? "Loading..." : "None"}</span>
+                        <button className={styles.filterBtn} onClick={() => lutInputRef.current?.click()}>
+                            <Upload size={12} /> Load .cube
+                        </button>
+                        {value.lutId && (
+                            <button className={styles.filterBtn} onClick={() => onChange({ ...value, lutId: null, name: CUSTOM_NAME })}>
+                                Clear
+                            </button>
+                        )}
+                        <input
+                            ref={lutInputRef}
+                            type="file"
+                            accept=".cube"
+                            onChange={handleLutFile}
+                            hidden
+                        />
+                    </div>
+
+                    <div className={styles.saveRow}>
+                        <input
+                            type="text"
+                            className={styles.nameInput}
+                            placeholder="Preset name"
+                            value={presetName}
+                            maxLength={24}
+                            onChange={(e) => setPresetName(e.target.value)}
+                            onKeyDown={(e) => e.key === "Enter" && savePreset()}
+                        />
+                        <button className={styles.filterBtn} onClick={savePreset} disabled={!presetName.trim()}>
+                            <Save size={12} /> Save Preset
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {error && <p className={styles.error}>{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { loadLut } from "@/lib/filterPresets";
+import { FilterSettings, Lut, renderFilteredImage } from "@/lib/filters";
+import { decodeFrame, Frame } from "@/lib/frames";
+
+/** The stored LUT for `lutId`, or null while it loads. */
+export function useLut(lutId: string | null): Lut | null {
+    const [lut, setLut] = useState<Lut | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadLut(lutId).then((loaded) => {
+            if (!cancelled) setLut(loaded);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [lutId]);
+
+    // Don't show a stale LUT while the next one loads
+    return lut && lut.id === lutId ? lut : null;
+}
+
+interface FilteredImageProps {
+    frame: Frame;
+    filter: FilterSettings;
+    alt: string;
+    className?: string;
+}
+
+/**
+ * An <img> replacement that runs the pixel filter, sized like object-fit: cover.
+ * Renders at its on-screen size so previews stay cheap.
+ */
+export default function FilteredImage({ frame, filter, alt, className }: FilteredImageProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lut = useLut(filter.lutId);
+
+    useEffect(() => {
+        let cancelled = false;
+        decodeFrame(frame)
+            .then((img) => {
+                const canvas = canvasRef.current;
+                if (cancelled || !canvas) return;
+                const dpr = window.devicePixelRatio || 1;
+                const width = Math.round(canvas.offsetWidth * dpr) || img.width;
+                const height = Math.round(canvas.offsetHeight * dpr) || img.height;
+                const filtered = renderFilteredImage(img, width, height, filter, lut);
+                canvas.width = filtered.width;
+                canvas.height = filtered.height;
+                canvas.getContext("2d")?.drawImage(filtered, 0, 0);
+            })
+            .catch((err) => console.error("Failed to render filtered image:", err));
+        return () => {
+            cancelled = true;
+        };
+    }, [frame, filter, lut]);
+
+    return <canvas ref={canvasRef} className={className} role="img" aria-label={alt} />;
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import React, { useState } from "react";
+import { Delete, Lock, X } from "lucide-react";
+import styles from "./KioskDialog.module.css";
+import { describeKey, enterFullscreen, exitFullscreen, hashPin, IDLE_OPTIONS, KioskSettings, MIN_PIN_LENGTH, saveKiosk } from "@/lib/kiosk";
+
+interface KioskDialogProps {
+    settings: KioskSettings;
+    onClose: () => void;
+}
+
+const PIN_KEYS = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+// Setup form while kiosk mode is off, PIN pad to leave it while it's on
+export default function KioskDialog({ settings, onClose }: KioskDialogProps) {
+    return (
+        <div className={styles.backdrop} onClick={onClose}>
+            <div className={styles.dialog} onClick={(e) => e.stopPropagation()}>
+                <button className={styles.closeBtn} onClick={onClose} aria-label="Close">
+                    <X size={18} />
+                </button>
+                {settings.enabled ? <PinPad settings={settings} onClose={onClose} /> : <KioskSetup settings={settings} onClose={onClose} />}
+            </div>
+        </div>
+    );
+}
+
+function KioskSetup({ settings, onClose }: KioskDialogProps) {
+    // Only the PIN's hash is kept, so it's entered afresh each time
+    const [pin, setPin] = useState("");
+    const [idleSeconds, setIdleSeconds] = useState(settings.idleSeconds);
+    const [pedalKey, setPedalKey] = useState(settings.pedalKey);
+    const [error, setError] = useState<string | null>(null);
+
+    const pinValid = /^\d+$/.test(pin) && pin.length >= MIN_PIN_LENGTH;
+
+    const start = async () => {
+        if (!pinValid) return;
+        // Still inside the click, so the browser allows fullscreen
+        enterFullscreen();
+        try {
+            const pinHash = await hashPin(pin);
+            saveKiosk({ enabled: true, pinHash, pinLength: pin.length, idleSeconds, pedalKey });
+            onClose();
+        } catch (err) {
+            console.error("Failed to hash the kiosk PIN", err);
+            exitFullscreen();
+            setError("Could not store the PIN. Kiosk mode needs the booth to be served over HTTPS.");
+        }
+    };
+
+    return (
+        <>
+            <h3>Kiosk Mode</h3>
+            <p className={styles.hint}>
+                Runs the booth fullscreen for guests. Navigation is hidden and the booth returns to the start when nobody is using it.
+            </p>
+            <label className={styles.field}>
+                <span>Exit PIN</span>
+                <input
+                    type="password"
+                    inputMode="numeric"
+                    value={pin}
+                    maxLength={8}
+                    placeholder={`${MIN_PIN_LENGTH}+ digits`}
+                    onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                />
+            </label>
+            <label className={styles.field}>
+                <span>Idle reset</span>
+                <select value={idleSeconds} onChange={(e) => setIdleSeconds(Number(e.target.value))}>
+                    {IDLE_OPTIONS.map((seconds) => (
+                        <option key={seconds} value={seconds}>
+                            {seconds < 60 ? `${seconds} seconds` : `${seconds / 60} min`}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            <label className={styles.field}>
+                <span>Pedal key</span>
+                <input
+                    type="text"
+                    readOnly
+                    value={describeKey(pedalKey)}
+                    title="Focus here and press the pedal"
+                    onKeyDown={(e) => {
+                        if (e.key === "Tab") return;
+                        e.preventDefault();
+                        setPedalKey(e.key);
+                    }}
+                />
+            </label>
+            <p className={styles.hint}>Guests start with a tap, the space bar or the pedal.</p>
+            {error && <p className={styles.error}>{error}</p>}
+            <button className="btn btn-primary" onClick={start} disabled={!pinValid}>
+                <Lock size={16} /> Start Kiosk
+            </button>
+        </>
+    );
+}
+
+function PinPad({ settings, onClose }: KioskDialogProps) {
+    const [entered, setEntered] = useState("");
+    const [wrong, setWrong] = useState(false);
+
+    const press = async (digit: string) => {
+        // Full while the last PIN is being checked
+        if (entered.length >= settings.pinLength) return;
+        const next = entered + digit;
+        setEntered(next);
+        setWrong(false);
+        if (next.length < settings.pinLength) return;
+        const matches = await hashPin(next).then(
+            (hash) => hash === settings.pinHash,
+            (err) => {
+                console.error("Failed to check the kiosk PIN", err);
+                return false;
+            }
+        );
+        if (matches) {
+            saveKiosk({ ...settings, enabled: false });
+            exitFullscreen();
+            onClose();
+            return;
+        }
+        setEntered("");
+        setWrong(true);
+    };
+
+    return (
+        <>
+            <h3>Enter PIN</h3>
+            <div className={`${styles.pinDots} ${wrong ? styles.wrongPin : ""}`}>
+                {Array.from({ length: settings.pinLength }, (_, i) => (
+                    <span key={i} className={i < entered.length ? styles.filledDot : ""} />
+                ))}
+            </div>
+            <div className={styles.pinGrid}>
+                {PIN_KEYS.map((digit) => (
+                    <button key={digit} className={styles.pinKey} onClick={() => press(digit)}>{digit}</button>
+                ))}
+                <span />
+                <button className={styles.pinKey} onClick={() => press("0")}>0</button>
+                <button className={styles.pinKey} onClick={() => setEntered(entered.slice(0, -1))} aria-label="Delete">
+                    <Delete size={20} />
+                </button>
+            </div>
+        </>
+    );
+}
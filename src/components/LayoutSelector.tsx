@@ -1,44 +1,119 @@
 "use client";
 
-import React from "react";
+import React, { useRef, useState, useSyncExternalStore } from "react";
+import { Upload, X } from "lucide-react";
 import styles from "./LayoutSelector.module.css";
-
-export type LayoutType = "4-diagonal" | "3-diagonal" | "4-square" | "6-grid";
+import {
+  BUILT_IN_LAYOUTS,
+  LayoutTemplate,
+  getCustomLayouts,
+  getServerCustomLayouts,
+  readLayoutFile,
+  saveCustomLayouts,
+  subscribeCustomLayouts,
+} from "@/lib/layouts";
 
 interface LayoutSelectorProps {
-  onSelect: (layout: LayoutType) => void;
+  onSelect: (layout: LayoutTemplate) => void;
+  kiosk?: boolean; // Guests can pick a layout but not load or remove templates
+}
+
+const PREVIEW_MAX_WIDTH = 80;
+const PREVIEW_MAX_HEIGHT = 112;
+
+// Miniature of the template: slot rectangles scaled into a fixed box
+function LayoutPreview({ layout }: { layout: LayoutTemplate }) {
+  const k = Math.min(PREVIEW_MAX_WIDTH / layout.width, PREVIEW_MAX_HEIGHT / layout.height);
+  return (
+    <div className={styles.preview} style={{ width: layout.width * k, height: layout.height * k }}>
+      {layout.slots.map((slot, i) => (
+        <span
+          key={i}
+          style={{
+            left: slot.x * k,
+            top: slot.y * k,
+            width: slot.width * k,
+            height: slot.height * k,
+            transform: slot.rotation ? `rotate(${slot.rotation}deg)` : undefined,
+            background: layout.previewColor || "var(--primary)",
+          }}
+        />
+      ))}
+    </div>
+  );
 }
 
-export default function LayoutSelector({ onSelect }: LayoutSelectorProps) {
+export default function LayoutSelector({ onSelect, kiosk = false }: LayoutSelectorProps) {
+  const customLayouts = useSyncExternalStore(subscribeCustomLayouts, getCustomLayouts, getServerCustomLayouts);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+    setError(null);
+    let next = customLayouts;
+    for (const file of Array.from(files)) {
+      try {
+        const template = await readLayoutFile(file);
+        // Re-loading a template with the same id replaces it
+        next = [...next.filter((l) => l.id !== template.id), template];
+      } catch (err) {
+        setError(err instanceof Error ? err.message : `Could not load ${file.name}`);
+      }
+    }
+    saveCustomLayouts(next);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const removeCustom = (id: string) => {
+    saveCustomLayouts(customLayouts.filter((l) => l.id !== id));
+  };
+
   return (
     <div className={styles.container}>
       <h2>Choose your layout</h2>
       <div className={styles.grid}>
-        <button className={styles.option} onClick={() => onSelect("4-diagonal")}>
-          <div className={styles.preview4Diag}>
-            <span></span><span></span><span></span><span></span>
-          </div>
-          <p>4-Cut Diagonal</p>
-        </button>
-        <button className={styles.option} onClick={() => onSelect("3-diagonal")}>
-           <div className={styles.preview3Diag}>
-            <span></span><span></span><span></span>
+        {BUILT_IN_LAYOUTS.map((layout) => (
+          <button key={layout.id} className={styles.option} onClick={() => onSelect(layout)}>
+            <LayoutPreview layout={layout} />
+            <p>{layout.name}</p>
+          </button>
+        ))}
+        {customLayouts.map((layout) => (
+          <div key={layout.id} className={styles.customOption}>
+            <button className={styles.option} onClick={() => onSelect(layout)}>
+              <LayoutPreview layout={layout} />
+              <p>{layout.name}</p>
+            </button>
+            {!kiosk && (
+              <button
+                className={styles.removeBtn}
+                onClick={() => removeCustom(layout.id)}
+                aria-label={`Remove ${layout.name}`}
+              >
+                <X size={12} />
+              </button>
+            )}
           </div>
-          <p>3-Cut Diagonal</p>
-        </button>
-        <button className={styles.option} onClick={() => onSelect("4-square")}>
-           <div className={styles.preview4Sq}>
-            <span></span><span></span><span></span><span></span>
-          </div>
-          <p>4-Cut Square</p>
-        </button>
-        <button className={styles.option} onClick={() => onSelect("6-grid")}>
-           <div className={styles.preview6Grid}>
-            <span></span><span></span><span></span><span></span><span></span><span></span>
-          </div>
-          <p>6-Cut Grid</p>
-        </button>
+        ))}
       </div>
+
+      {!kiosk && (
+        <>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            multiple
+            hidden
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <button className="btn" onClick={() => fileInputRef.current?.click()}>
+            <Upload size={16} /> Load template
+          </button>
+          {error && <p className={styles.error}>{error}</p>}
+        </>
+      )}
     </div>
   );
 }
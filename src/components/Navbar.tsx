@@ -7,24 +7,35 @@ import { Camera } from "lucide-react";
 import { useNavbar } from "@/context/NavbarContext";
 
 export default function Navbar() {
-    const { centerContent } = useNavbar();
+    const { centerContent, linksHidden } = useNavbar();
 
     return (
         <nav className={styles.navbar}>
             <div className={styles.container}>
-                <Link href="/" className={styles.logo}>
-                    <Camera className={styles.icon} />
-                    <span>Photobooth</span>
-                </Link>
+                {linksHidden ? (
+                    <div className={styles.logo}>
+                        <Camera className={styles.icon} />
+                        <span>Photobooth</span>
+                    </div>
+                ) : (
+                    <Link href="/" className={styles.logo}>
+                        <Camera className={styles.icon} />
+                        <span>Photobooth</span>
+                    </Link>
+                )}
 
                 <div className={styles.centerContent}>
                     {centerContent}
                 </div>
 
-                <div className={styles.links}>
-                    <Link href="/" className={styles.link}>Home</Link>
-                    <Link href="/booth" className={styles.link}>Start Booth</Link>
-                </div>
+                {!linksHidden && (
+                    <div className={styles.links}>
+                        <Link href="/" className={styles.link}>Home</Link>
+                        <Link href="/booth" className={styles.link}>Start Booth</Link>
+                        <Link href="/gallery" className={styles.link}>Gallery</Link>
+                        <Link href="/branding" className={styles.link}>Branding</Link>
+                    </div>
+                )}
             </div>
         </nav>
     );
@@ -1,98 +1,195 @@
 "use client";
 
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo, useSyncExternalStore } from "react";
 import Draggable from "react-draggable";
-import html2canvas from "html2canvas";
-import { saveAs } from "file-saver";
 import styles from "./PhotoEditor.module.css";
-import { LayoutType } from "./LayoutSelector";
-import { X, Image as ImageIcon, Film, Minus, Plus } from "lucide-react";
-import { FilterType } from "./Camera";
+import FilterControls from "./FilterControls";
+import FilteredImage from "./FilteredImage";
+import { X, Image as ImageIcon, Film, Minus, Plus, QrCode, Video, Play, Pause, Type, AlignLeft, AlignCenter, AlignRight, Upload, Pencil, Highlighter, Sparkles, Eraser, Undo2, Redo2, Trash2, RotateCw, RotateCcw, FlipHorizontal2, ArrowUp, ArrowDown, Copy, Printer, FileText } from "lucide-react";
+import {
+    getTextFont,
+    drawStrokes,
+    LOGO_GAP,
+    renderStrip,
+    StripModel,
+    StripSticker,
+    StripStroke,
+    StripText,
+    StrokeMode,
+    TEXT_FONTS,
+    TEXT_LINE_HEIGHT,
+    TEXT_OUTLINE_RATIO,
+    TEXT_SHADOW,
+    TEXT_WEIGHT,
+    TextAlign,
+    TextEffect,
+} from "@/lib/compositor";
+import { FilterSettings } from "@/lib/filters";
+import { canvasToBlob, downloadBlob } from "@/lib/download";
+import { Burst } from "@/lib/frames";
+import { LayoutTemplate, STRIP_PADDING } from "@/lib/layouts";
+import { EMOJI_PACK, loadStickerPacks, StickerItem, StickerPack } from "@/lib/stickerPacks";
+import { readImageFile } from "@/lib/imageFile";
+import { isVideoFormatSupported, recordVideo, VideoFormat, VideoFrame } from "@/lib/videoExport";
+import { createHistory, mergeChanges, pushHistory, redoHistory, undoHistory } from "@/lib/history";
+import { buildSheetPdf } from "@/lib/pdf";
+import { DPI_OPTIONS, getPrint, getPrintScale, getServerPrint, getSheetSize, PAPER_SIZES, printSheet, renderPrintSheet, savePrint, setPngDpi, subscribePrint } from "@/lib/print";
+import { buildStripModel, createEditorState, EditorState } from "@/lib/stripModel";
+import { applyBranding, getBranding } from "@/lib/branding";
+import { AnimationSettings, buildTimeline, getTimelineDuration, getTrimRange } from "@/lib/animation";
 
 // ... imports
 
 interface PhotoEditorProps {
-    photos: string[][]; // Array of bursts
-    layout: LayoutType;
-    filter: FilterType;
+    photos: Burst[]; // One per layout slot
+    layout: LayoutTemplate;
+    filter: FilterSettings; // Chosen on the camera screen; the default for the whole strip
+    initialState?: EditorState | null;
+    onStateChange?: (state: EditorState) => void;
+    onExport?: (thumbnail: Blob | null) => void;
     onReset: () => void;
+    kiosk?: boolean; // Unattended booth: no page reload, the next guest starts over
+    onBusyChange?: (busy: boolean) => void; // True while an export runs, so kiosk mode doesn't time out
 }
 
-const STICKERS = ["❤️", "⭐", "🎀", "😎", "🔥", "✨", "🐶", "🐱", "👑", "💋"];
+const UPLOADS_TAB = "uploads";
+const INK_COLORS = ["#333333", "#ffffff", "#ff6b6b", "#ffb700", "#4ecdc4", "#7b61ff"];
+const BRUSHES: { mode: StrokeMode; label: string; icon: typeof Pencil }[] = [
+    { mode: "pen", label: "Pen", icon: Pencil },
+    { mode: "highlighter", label: "Highlighter", icon: Highlighter },
+    { mode: "neon", label: "Neon", icon: Sparkles },
+    { mode: "eraser", label: "Eraser", icon: Eraser },
+];
 const BORDER_COLORS = ["#ffffff", "#000000", "#ffb7b2", "#b5ead7", "#c7ceea", "#e2f0cb"];
-
-const getLayoutClassName = (layout: LayoutType) => {
-    switch (layout) {
-        case "4-diagonal": return "layout4Diagonal";
-        case "3-diagonal": return "layout3Diagonal";
-        case "4-square": return "layout4Square";
-        case "6-grid": return "layout6Grid";
-        default: return "layout4Diagonal";
-    }
-};
-
-const getFilterStyle = (f: FilterType) => {
-    switch (f) {
-        case "bw": return { filter: "grayscale(100%) contrast(1.2)" };
-        case "soft": return { filter: "brightness(1.1) contrast(0.9) saturate(0.8) blur(0.5px)" };
-        case "vintage": return { filter: "sepia(0.5) contrast(1.1) saturate(0.8)" };
-        default: return {};
-    }
+const LOOP_OPTIONS = [1, 2, 3, 5, 0]; // 0 = forever
+const TEXT_ALIGNS: { value: TextAlign; icon: typeof AlignLeft }[] = [
+    { value: "left", icon: AlignLeft },
+    { value: "center", icon: AlignCenter },
+    { value: "right", icon: AlignRight },
+];
+
+const MIN_STICKER_SCALE = 0.5;
+const MAX_STICKER_SCALE = 3;
+
+const clampStickerScale = (scale: number) => Math.max(MIN_STICKER_SCALE, Math.min(MAX_STICKER_SCALE, scale));
+
+// Keeps angles in (-180, 180] so saved values stay readable
+const normalizeAngle = (deg: number) => {
+    const a = ((deg % 360) + 360) % 360;
+    return Math.round((a > 180 ? a - 360 : a) * 10) / 10;
 };
 
-// Helper function to burn in CSS filters into image elements
-const burnInFilter = (doc: Document, filterValue: string) => {
-    if (!filterValue || filterValue === 'none') return;
-    const images = doc.querySelectorAll('img');
-    images.forEach((img) => {
-        const imgElement = img as HTMLImageElement;
-
-        // Skip if image not loaded or no dimensions
-        if (!imgElement.naturalWidth || !imgElement.naturalHeight) return;
-
-        try {
-            const canvas = document.createElement('canvas');
-            canvas.width = imgElement.naturalWidth;
-            canvas.height = imgElement.naturalHeight;
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-                // Apply the filter to the context
-                ctx.filter = filterValue;
-                ctx.drawImage(imgElement, 0, 0);
-
-                // Replace image source with the filtered version
-                imgElement.src = canvas.toDataURL('image/png');
-
-                // Remove CSS filter to avoid double application
-                imgElement.style.filter = 'none';
-                imgElement.style.removeProperty('filter');
-            }
-        } catch (e) {
-            console.error("Error burning in filter:", e);
-        }
-    });
-};
+type StickerTransform = { scale: number; rotation: number };
 
 // Sub-component to handle nodeRef logic cleanly
-function DraggableSticker({ sticker, onRemove, onResize, onStop, scaleFactor = 1 }: {
-    sticker: { id: number; content: string; x: number; y: number; scale: number },
+function DraggableSticker({ sticker, selected, onSelect, onRemove, onResize, onStop, onTransform, scaleFactor = 1 }: {
+    sticker: StripSticker,
+    selected: boolean,
+    onSelect: (id: number) => void,
     onRemove: (id: number) => void,
     onResize: (id: number, delta: number) => void,
     onStop: (id: number, x: number, y: number) => void,
+    onTransform: (id: number, transform: StickerTransform) => void,
     scaleFactor?: number
 }) {
     const nodeRef = useRef(null);
+    const contentRef = useRef<HTMLDivElement>(null);
+    // Transform shown while a pinch or the rotate handle is in use; committed as one edit when it ends
+    const [live, setLive] = useState<StickerTransform | null>(null);
+    const gestureRef = useRef<{ distance: number; angle: number; start: StickerTransform; latest: StickerTransform } | null>(null);
+
+    const scale = live?.scale ?? sticker.scale;
+    const rotation = live?.rotation ?? sticker.rotation ?? 0;
+
+    const updateGesture = (latest: StickerTransform) => {
+        if (gestureRef.current) gestureRef.current.latest = latest;
+        setLive(latest);
+    };
+
+    const endGesture = () => {
+        const gesture = gestureRef.current;
+        gestureRef.current = null;
+        setLive(null);
+        if (gesture) onTransform(sticker.id, gesture.latest);
+    };
+
+    const touchGeometry = (touches: React.TouchList) => {
+        const dx = touches[1].clientX - touches[0].clientX;
+        const dy = touches[1].clientY - touches[0].clientY;
+        return { distance: Math.hypot(dx, dy) || 1, angle: (Math.atan2(dy, dx) * 180) / Math.PI };
+    };
+
+    // Two fingers on the sticker: pinch to scale, twist to rotate
+    const handleTouchStart = (e: React.TouchEvent) => {
+        if (e.touches.length !== 2) return;
+        const start = { scale, rotation };
+        gestureRef.current = { ...touchGeometry(e.touches), start, latest: start };
+        setLive(start);
+        onSelect(sticker.id);
+    };
+
+    const handleTouchMove = (e: React.TouchEvent) => {
+        const gesture = gestureRef.current;
+        if (!gesture || e.touches.length !== 2) return;
+        const { distance, angle } = touchGeometry(e.touches);
+        updateGesture({
+            scale: clampStickerScale(gesture.start.scale * (distance / gesture.distance)),
+            rotation: normalizeAngle(gesture.start.rotation + angle - gesture.angle),
+        });
+    };
+
+    const handleTouchEnd = (e: React.TouchEvent) => {
+        if (gestureRef.current && e.touches.length < 2) endGesture();
+    };
+
+    const pointerAngle = (e: React.PointerEvent) => {
+        const rect = contentRef.current?.getBoundingClientRect();
+        if (!rect) return 0;
+        return (Math.atan2(e.clientY - (rect.top + rect.height / 2), e.clientX - (rect.left + rect.width / 2)) * 180) / Math.PI;
+    };
+
+    const handleRotateStart = (e: React.PointerEvent<HTMLDivElement>) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const start = { scale, rotation };
+        gestureRef.current = { distance: 1, angle: pointerAngle(e), start, latest: start };
+        setLive(start);
+    };
+
+    const handleRotateMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const gesture = gestureRef.current;
+        if (!gesture) return;
+        updateGesture({ ...gesture.start, rotation: normalizeAngle(gesture.start.rotation + pointerAngle(e) - gesture.angle) });
+    };
+
     return (
         <Draggable
             nodeRef={nodeRef}
             position={{ x: sticker.x, y: sticker.y }}
+            onStart={() => onSelect(sticker.id)}
             onStop={(e, data) => onStop(sticker.id, data.x, data.y)}
             scale={scaleFactor}
+            disabled={live !== null}
+            cancel={`.${styles.rotateHandle}`}
         >
-            <div ref={nodeRef} className={styles.sticker} style={{ position: 'absolute', zIndex: 10, cursor: 'move' }}>
-                <div style={{ transform: `scale(${sticker.scale})`, transformOrigin: 'center center' }}>
-                    <div className={styles.stickerContent}>
-                        {sticker.content}
+            <div
+                ref={nodeRef}
+                className={`${styles.sticker} ${selected ? styles.selectedSticker : ''}`}
+                style={{ position: 'absolute', zIndex: 10, cursor: 'move' }}
+                onTouchStart={handleTouchStart}
+                onTouchMove={handleTouchMove}
+                onTouchEnd={handleTouchEnd}
+                onTouchCancel={handleTouchEnd}
+            >
+                <div style={{ transform: `scale(${scale})`, transformOrigin: 'center center' }}>
+                    <div
+                        ref={contentRef}
+                        className={styles.stickerContent}
+                        style={{ transform: `rotate(${rotation}deg)${sticker.flipped ? ' scaleX(-1)' : ''}` }}
+                    >
+                        {sticker.image
+                            ? <img src={sticker.image} alt={sticker.content} className={styles.stickerImage} draggable={false} />
+                            : sticker.content}
                     </div>
                     <div className={styles.stickerControls}>
                         <button className={styles.controlBtn} onClick={(e) => { e.stopPropagation(); onResize(sticker.id, -0.1); }}>
@@ -105,310 +202,654 @@ function DraggableSticker({ sticker, onRemove, onResize, onStop, scaleFactor = 1
                             <Plus size={8} />
                         </button>
                     </div>
+                    {selected && (
+                        <div
+                            className={styles.rotateHandle}
+                            onPointerDown={handleRotateStart}
+                            onPointerMove={handleRotateMove}
+                            onPointerUp={endGesture}
+                            onPointerCancel={endGesture}
+                            aria-label="Rotate sticker"
+                            title="Drag to rotate"
+                        >
+                            <RotateCw size={10} />
+                        </div>
+                    )}
+                </div>
+            </div>
+        </Draggable>
+    );
+}
+
+// Same layout rules as drawText in the compositor, so the preview matches the exports
+const getTextStyle = (layer: StripText): React.CSSProperties => ({
+    width: layer.width,
+    fontFamily: getTextFont(layer.font).css,
+    fontWeight: TEXT_WEIGHT,
+    fontSize: layer.size,
+    lineHeight: TEXT_LINE_HEIGHT,
+    color: layer.color,
+    textAlign: layer.align,
+    whiteSpace: "pre",
+    WebkitTextStroke: layer.effect === "outline" ? `${layer.size * TEXT_OUTLINE_RATIO}px ${layer.effectColor}` : undefined,
+    paintOrder: "stroke fill",
+    textShadow: layer.effect === "shadow" ? `0 ${TEXT_SHADOW.offsetY}px ${TEXT_SHADOW.blur}px ${layer.effectColor}` : undefined,
+});
+
+function DraggableText({ layer, selected, onSelect, onRemove, onResize, onStop, scaleFactor = 1 }: {
+    layer: StripText,
+    selected: boolean,
+    onSelect: (id: number) => void,
+    onRemove: (id: number) => void,
+    onResize: (id: number, delta: number) => void,
+    onStop: (id: number, x: number, y: number) => void,
+    scaleFactor?: number
+}) {
+    const nodeRef = useRef(null);
+    return (
+        <Draggable
+            nodeRef={nodeRef}
+            position={{ x: layer.x, y: layer.y }}
+            onStart={() => onSelect(layer.id)}
+            onStop={(e, data) => onStop(layer.id, data.x, data.y)}
+            scale={scaleFactor}
+        >
+            <div ref={nodeRef} className={`${styles.textLayer} ${selected ? styles.selectedText : ''}`}>
+                <div className={styles.textContent} style={getTextStyle(layer)}>
+                    {layer.text}
+                </div>
+                <div className={styles.stickerControls}>
+                    <button className={styles.controlBtn} onClick={(e) => { e.stopPropagation(); onResize(layer.id, -4); }}>
+                        <Minus size={8} />
+                    </button>
+                    <button className={styles.controlBtn} onClick={(e) => { e.stopPropagation(); onRemove(layer.id); }}>
+                        <X size={8} />
+                    </button>
+                    <button className={styles.controlBtn} onClick={(e) => { e.stopPropagation(); onResize(layer.id, 4); }}>
+                        <Plus size={8} />
+                    </button>
                 </div>
             </div>
         </Draggable>
     );
 }
 
-const PREVIEW_SCALE = 0.7;
+// Paints the doodle strokes with the compositor's own renderer and, while
+// drawing, turns pointer input into a new stroke in strip coordinates
+function DoodleLayer({ strokes, width, height, brush, onStroke }: {
+    strokes: StripStroke[],
+    width: number,
+    height: number,
+    brush: Omit<StripStroke, "id" | "points"> | null, // null when not drawing
+    onStroke: (stroke: StripStroke) => void
+}) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [draft, setDraft] = useState<StripStroke | null>(null);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx) return;
+        const dpr = window.devicePixelRatio || 1;
+        canvas.width = Math.round(width * dpr);
+        canvas.height = Math.round(height * dpr);
+        ctx.scale(dpr, dpr);
+        drawStrokes(ctx, draft ? [...strokes, draft] : strokes, dpr);
+    }, [strokes, draft, width, height]);
+
+    const toStripPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        // The bounding box includes the preview scale, so this works at any zoom
+        const rect = e.currentTarget.getBoundingClientRect();
+        return [
+            Math.round(((e.clientX - rect.left) / rect.width) * width * 10) / 10,
+            Math.round(((e.clientY - rect.top) / rect.height) * height * 10) / 10,
+        ];
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!brush) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDraft({ ...brush, id: Date.now(), points: toStripPoint(e) });
+    };
 
-export default function PhotoEditor({ photos, layout, filter, onReset }: PhotoEditorProps) {
-    console.log("PhotoEditor received photos:", photos.length, "bursts");
-    if (photos.length > 0) {
-        console.log("First burst length:", photos[0].length);
-        console.log("First photo sample:", photos[0][0]?.substring(0, 30));
-    }
-    const [borderColorState, setBorderColorState] = useState("#ffffff");
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!draft) return;
+        const [x, y] = toStripPoint(e);
+        const lastX = draft.points[draft.points.length - 2];
+        const lastY = draft.points[draft.points.length - 1];
+        if (Math.hypot(x - lastX, y - lastY) < 1) return; // Skip jitter to keep paths small
+        setDraft({ ...draft, points: [...draft.points, x, y] });
+    };
+
+    const finishStroke = () => {
+        if (draft) onStroke(draft);
+        setDraft(null);
+    };
 
-    // Wrapper to clear cache when border color changes
-    const setBorderColor = (color: string) => {
-        setBorderColorState(color);
+    return (
+        <canvas
+            ref={canvasRef}
+            className={`${styles.doodleLayer} ${brush ? styles.drawing : ''}`}
+            style={{ width, height }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={finishStroke}
+            onPointerCancel={finishStroke}
+        />
+    );
+}
+
+export default function PhotoEditor({ photos, layout: baseLayout, filter, initialState, onStateChange, onExport, onReset, kiosk = false, onBusyChange }: PhotoEditorProps) {
+    // Every edit goes through the history so it can be undone; UI-only state
+    // (selection, open tabs, brush) lives outside it
+    const [history, setHistory] = useState(() => createHistory<EditorState>({
+        ...createEditorState(filter, getBranding()),
+        ...initialState,
+    }));
+    const { borderColor, stickers, animation, stripFilter, slotFilters, texts, header, uploadedStickers, strokes, branding } = history.present;
+    // The branding can move or drop the header and add a footer band
+    const layout = useMemo(() => applyBranding(baseLayout, branding), [baseLayout, branding]);
+
+    // Cache for composited frames to speed up GIF generation
+    const frameCacheRef = useRef<Map<string, HTMLCanvasElement>>(new Map());
+
+    // Cached frames may show the old state
+    useEffect(() => {
         frameCacheRef.current.clear();
+    }, [history.present]);
+
+    // Applies an edit as one undo step; `key` merges rapid repeats (slider drags, typing).
+    // Edits that change nothing leave the history alone.
+    const commit = (update: (doc: EditorState) => Partial<EditorState>, key: string | null = null) => {
+        setHistory((prev) => pushHistory(prev, mergeChanges(prev.present, update(prev.present)), key));
     };
 
-    const borderColor = borderColorState; // Use state value
-    const [stickers, setStickers] = useState<{ id: number; content: string; x: number; y: number; scale: number }[]>([]);
+    const undo = () => setHistory(undoHistory);
+
+    const redo = () => setHistory(redoHistory);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            // Leave text fields their own undo
+            const target = e.target as HTMLElement | null;
+            if (target?.closest("input, textarea, select, [contenteditable]")) return;
+            const key = e.key.toLowerCase();
+            if (key === "z" && !e.shiftKey) {
+                e.preventDefault();
+                setHistory(undoHistory);
+            } else if ((key === "z" && e.shiftKey) || key === "y") {
+                e.preventDefault();
+                setHistory(redoHistory);
+            }
+        };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, []);
+
+    const setBorderColor = (color: string) => commit(() => ({ borderColor: color }));
+
     const stripRef = useRef<HTMLDivElement>(null);
     const [isExporting, setIsExporting] = useState(false);
-    const [gifProgress, setGifProgress] = useState(0);
+    const [videoSupport] = useState(() => ({ webm: isVideoFormatSupported("webm"), mp4: isVideoFormatSupported("mp4") }));
+    const [exportProgress, setExportProgress] = useState(0);
 
-    // State to control which frame of the burst is currently displayed
-    // For editing, we usually show the last frame (the "final" shot)
-    // But for GIF generation, we will programmatically cycle this.
-    const [displayFrameIndex, setDisplayFrameIndex] = useState<number | null>(null); // null means show last frame
+    useEffect(() => {
+        if (!onBusyChange) return;
+        onBusyChange(isExporting);
+        return () => onBusyChange(false);
+    }, [isExporting, onBusyChange]);
 
-    // Cache for pre-captured frames to speed up GIF generation
-    const frameCacheRef = useRef<Map<string, HTMLCanvasElement>>(new Map());
+    const [stickerPacks, setStickerPacks] = useState<StickerPack[]>([EMOJI_PACK]);
+    const [stickerTab, setStickerTab] = useState(EMOJI_PACK.id);
+    const [stickerError, setStickerError] = useState<string | null>(null);
+    const stickerInputRef = useRef<HTMLInputElement>(null);
 
-    const addSticker = (content: string) => {
-        setStickers([...stickers, { id: Date.now(), content, x: 0, y: 0, scale: 1 }]);
-        // Clear cache when stickers change
-        frameCacheRef.current.clear();
+    useEffect(() => {
+        let cancelled = false;
+        loadStickerPacks()
+            .then((packs) => {
+                if (!cancelled) setStickerPacks([EMOJI_PACK, ...packs]);
+            })
+            .catch((err) => console.error("Failed to load sticker packs:", err));
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    const handleStickerUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ""; // Let the same file be picked again
+        if (!file) return;
+        try {
+            const image = await readImageFile(file);
+            setStickerError(null);
+            commit((doc) => ({ uploadedStickers: [...doc.uploadedStickers, image] }));
+        } catch (err) {
+            console.error("Sticker upload failed:", err);
+            setStickerError(err instanceof Error ? err.message : "Could not use that image");
+        }
     };
 
+    const [isDrawing, setIsDrawing] = useState(false);
+    const [brushMode, setBrushMode] = useState<StrokeMode>("pen");
+    const [brushColor, setBrushColor] = useState(INK_COLORS[0]);
+    const [brushSize, setBrushSize] = useState(6);
+
+    const addStroke = (stroke: StripStroke) => commit((doc) => ({ strokes: [...doc.strokes, stroke] }));
+
+    const clearStrokes = () => commit(() => ({ strokes: [] }));
+
+    const activePack = stickerPacks.find((p) => p.id === stickerTab);
+    const uploadedItems: StickerItem[] = uploadedStickers.map((image, i) => ({ id: `upload-${i}`, name: `My sticker ${i + 1}`, image }));
+
+    const addSticker = (item: StickerItem) => {
+        const sticker: StripSticker = { id: Date.now(), content: item.content ?? item.name, x: STRIP_PADDING, y: STRIP_PADDING, scale: 1 };
+        if (item.image) sticker.image = item.image;
+        commit((doc) => ({ stickers: [...doc.stickers, sticker] }));
+    };
+
+    const [selectedStickerId, setSelectedStickerId] = useState<number | null>(null);
+    const selectedSticker = stickers.find((s) => s.id === selectedStickerId) ?? null;
+
     const removeSticker = (id: number) => {
-        setStickers(stickers.filter((s) => s.id !== id));
-        // Clear cache when stickers change
-        frameCacheRef.current.clear();
+        commit((doc) => ({ stickers: doc.stickers.filter((s) => s.id !== id) }));
+        if (selectedStickerId === id) setSelectedStickerId(null);
     };
 
     const resizeSticker = (id: number, delta: number) => {
-        setStickers(stickers.map(s => {
-            if (s.id === id) {
-                const newScale = Math.max(0.5, Math.min(3, s.scale + delta));
-                return { ...s, scale: newScale };
-            }
-            return s;
+        commit((doc) => ({
+            stickers: doc.stickers.map((s) => (s.id === id ? { ...s, scale: clampStickerScale(s.scale + delta) } : s)),
         }));
-        // Clear cache when stickers change
-        frameCacheRef.current.clear();
+    };
+
+    const updateSticker = (id: number, changes: Partial<StripSticker>) => {
+        commit((doc) => ({ stickers: doc.stickers.map((s) => (s.id === id ? { ...s, ...changes } : s)) }));
+    };
+
+    const rotateSticker = (id: number, delta: number) => {
+        commit((doc) => ({
+            stickers: doc.stickers.map((s) => (s.id === id ? { ...s, rotation: normalizeAngle((s.rotation ?? 0) + delta) } : s)),
+        }));
+    };
+
+    // Stickers are drawn in array order, so moving one changes what sits on top
+    const moveSticker = (id: number, direction: 1 | -1) => {
+        commit((doc) => {
+            const index = doc.stickers.findIndex((s) => s.id === id);
+            const target = index + direction;
+            if (index < 0 || target < 0 || target >= doc.stickers.length) return {};
+            const reordered = [...doc.stickers];
+            [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+            return { stickers: reordered };
+        });
+    };
+
+    const duplicateSticker = (id: number) => {
+        const source = stickers.find((s) => s.id === id);
+        if (!source) return;
+        const copy = { ...source, id: Date.now(), x: source.x + 16, y: source.y + 16 };
+        commit((doc) => ({ stickers: [...doc.stickers, copy] }));
+        setSelectedStickerId(copy.id);
     };
 
     const updateStickerPosition = (id: number, x: number, y: number) => {
-        setStickers(stickers.map(s => {
-            if (s.id === id) {
-                return { ...s, x, y };
-            }
-            return s;
+        const current = stickers.find((s) => s.id === id);
+        if (current && current.x === x && current.y === y) return; // A click, not a move
+        commit((doc) => ({ stickers: doc.stickers.map((s) => (s.id === id ? { ...s, x, y } : s)) }));
+    };
+
+    const updateHeader = (changes: Partial<StripModel["header"]>) => {
+        commit((doc) => ({ header: { ...doc.header, ...changes } }), `header-${Object.keys(changes).join()}`);
+    };
+
+    const [selectedTextId, setSelectedTextId] = useState<number | null>(null);
+    const selectedText = texts.find((t) => t.id === selectedTextId) ?? null;
+
+    const addText = () => {
+        const id = Date.now();
+        commit((doc) => ({
+            texts: [...doc.texts, {
+                id,
+                text: "Your text",
+                x: STRIP_PADDING,
+                y: layout.height / 2,
+                width: layout.width - STRIP_PADDING * 2,
+                font: TEXT_FONTS[0].id,
+                size: 32,
+                color: "#333333",
+                effect: "none",
+                effectColor: "#ffffff",
+                align: "center",
+            }],
         }));
-        frameCacheRef.current.clear();
+        setSelectedTextId(id);
+    };
+
+    const updateText = (id: number, changes: Partial<StripText>) => {
+        const current = texts.find((t) => t.id === id);
+        if (current && Object.entries(changes).every(([k, v]) => current[k as keyof StripText] === v)) return;
+        commit(
+            (doc) => ({ texts: doc.texts.map((t) => (t.id === id ? { ...t, ...changes } : t)) }),
+            `text-${id}-${Object.keys(changes).join()}`
+        );
     };
 
-    const exportRef = useRef<HTMLDivElement>(null);
+    const removeText = (id: number) => {
+        commit((doc) => ({ texts: doc.texts.filter((t) => t.id !== id) }));
+        if (selectedTextId === id) setSelectedTextId(null);
+    };
 
-    const downloadImage = async (format: "png" | "jpg") => {
-        if (!exportRef.current) return;
-        setIsExporting(true);
-        // Ensure we are showing the static (last) frame
-        setDisplayFrameIndex(null);
-
-        // Wait for render to ensure filters are applied and images are loaded
-        await new Promise(r => setTimeout(r, 300));
-
-        // Ensure all images in the EXPORT container are loaded
-        const images = exportRef.current.querySelectorAll('img');
-        const imagePromises = Array.from(images).map((img) => {
-            if (img.complete) return Promise.resolve();
-            return new Promise((resolve) => {
-                img.onload = resolve;
-                img.onerror = resolve; // Continue even if image fails to load
-            });
-        });
-        await Promise.all(imagePromises);
-        await new Promise(r => setTimeout(r, 100)); // Extra wait for CSS filters to render
+    const resizeText = (id: number, delta: number) => {
+        commit((doc) => ({
+            texts: doc.texts.map((t) => (t.id === id ? { ...t, size: Math.max(12, Math.min(96, t.size + delta)) } : t)),
+        }));
+    };
+
+    const [filterTarget, setFilterTarget] = useState<number | null>(null); // Slot being edited, null = whole strip
+    const slotFilterList = layout.slots.map((_, i) => slotFilters[i] ?? stripFilter);
+
+    const setStripFilter = (next: FilterSettings) => commit(() => ({ stripFilter: next }), "strip-filter");
 
-        // Get the filter style to apply
-        const filterStyle = getFilterStyle(filter);
-        const filterValue = filterStyle.filter || '';
+    const setSlotFilter = (index: number, next: FilterSettings | null) => {
+        commit((doc) => {
+            const updated = layout.slots.map((_, i) => doc.slotFilters[i] ?? null);
+            updated[index] = next;
+            return { slotFilters: updated };
+        }, `slot-filter-${index}`);
+    };
+
+    const updateAnimation = (changes: Partial<AnimationSettings>) => {
+        commit((doc) => ({ animation: { ...doc.animation, ...changes } }), `animation-${Object.keys(changes).join()}`);
+    };
+
+    // Live motion preview: null shows the final snap, otherwise the burst frame to show
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [previewFrame, setPreviewFrame] = useState<number | null>(null);
+    const burstLength = Math.max(...photos.map((burst) => burst.length), 1);
+    const trimRange = getTrimRange(animation, burstLength);
+    const timeline = buildTimeline(animation, burstLength);
+
+    useEffect(() => {
+        if (!isPlaying) return;
+        const frames = buildTimeline(animation, burstLength);
+        let step = 0;
+        let timer: ReturnType<typeof setTimeout>;
+        const tick = () => {
+            const frame = frames[step % frames.length];
+            setPreviewFrame(frame.frameIndex);
+            step++;
+            timer = setTimeout(tick, frame.delay);
+        };
+        tick();
+        return () => {
+            clearTimeout(timer);
+            setPreviewFrame(null);
+        };
+    }, [isPlaying, animation, burstLength]);
+
+    // Report edits so the booth can persist them
+    useEffect(() => {
+        onStateChange?.(history.present);
+    }, [history.present, onStateChange]);
+
+    const getStripModel = (): StripModel => buildStripModel(photos, baseLayout, history.present);
 
+    // Lets the booth mark the session finished, with a small preview for the gallery
+    const notifyExport = async () => {
+        if (!onExport) return;
         try {
-            const canvas = await html2canvas(exportRef.current, {
-                useCORS: true,
-                scale: 2,
-                backgroundColor: null,
-                allowTaint: false,
-                logging: false,
-                scrollX: 0,
-                scrollY: 0,
-                onclone: (clonedDoc) => {
-                    // Burn in filter
-                    burnInFilter(clonedDoc, filterValue);
-                }
-            });
+            const canvas = await renderStrip(getStripModel(), { scale: 0.5 });
+            onExport(await canvasToBlob(canvas, "image/jpeg", 0.8));
+        } catch (err) {
+            console.error("Thumbnail render failed", err);
+            onExport(null);
+        }
+    };
 
-            canvas.toBlob((blob) => {
-                if (!blob) {
-                    setIsExporting(false);
-                    return;
-                }
-
-                const url = URL.createObjectURL(blob);
-                const link = document.createElement('a');
-                link.href = url;
-                link.download = `photobooth-${Date.now()}.${format}`;
-                link.style.display = 'none';
-                document.body.appendChild(link);
-                link.click();
-
-                setTimeout(() => {
-                    document.body.removeChild(link);
-                    URL.revokeObjectURL(url);
-                }, 100);
-
-                setIsExporting(false);
-            }, `image/${format === "jpg" ? "jpeg" : "png"}`, format === "jpg" ? 0.92 : 1);
+    const downloadImage = async (format: "png" | "jpg") => {
+        setIsExporting(true);
+        try {
+            const canvas = await renderStrip(getStripModel(), { scale: 2 });
+            const blob = await canvasToBlob(canvas, `image/${format === "jpg" ? "jpeg" : "png"}`, format === "jpg" ? 0.92 : 1);
+            if (blob) {
+                downloadBlob(blob, `photobooth-${Date.now()}.${format}`);
+                await notifyExport();
+            }
         } catch (err) {
             console.error("Export failed", err);
+        } finally {
             setIsExporting(false);
         }
     };
 
-    const downloadGif = async () => {
-        if (!exportRef.current) return;
+    // Print output at the paper's physical size; settings are shared by every strip
+    const printSettings = useSyncExternalStore(subscribePrint, getPrint, getServerPrint);
+    const renderPrint = async () => {
+        const strip = await renderStrip(getStripModel(), { scale: getPrintScale(layout, printSettings) });
+        return renderPrintSheet(strip, borderColor, printSettings);
+    };
+
+    const printStrip = async () => {
         setIsExporting(true);
+        try {
+            await printSheet(await renderPrint(), printSettings);
+            await notifyExport();
+        } catch (err) {
+            console.error("Print failed", err);
+        } finally {
+            setIsExporting(false);
+        }
+    };
 
+    const downloadPrint = async () => {
+        setIsExporting(true);
         try {
-            const gifModule = await import("gif.js");
-            const GIF = gifModule.default || gifModule;
-
-            const burstLength = photos[0]?.length || 1;
-            if (burstLength <= 1) {
-                console.warn("Burst length is 1 or less, cannot generate animated GIF");
-                setIsExporting(false);
-                return;
+            const blob = await canvasToBlob(await renderPrint(), "image/png");
+            if (blob) {
+                downloadBlob(await setPngDpi(blob, printSettings.dpi), `photobooth-print-${Date.now()}.png`);
+                await notifyExport();
             }
+        } catch (err) {
+            console.error("Print export failed", err);
+        } finally {
+            setIsExporting(false);
+        }
+    };
 
-            const filterStyle = getFilterStyle(filter);
-            const filterValue = filterStyle.filter || '';
-
-            setDisplayFrameIndex(0);
-            await new Promise(r => setTimeout(r, 150));
-
-            // Ensure all images in EXPORT container are loaded
-            const testImages = exportRef.current.querySelectorAll('img');
-            const incompleteTestImages = Array.from(testImages).filter(img => !img.complete);
-            if (incompleteTestImages.length > 0) {
-                await Promise.all(incompleteTestImages.map((img) => {
-                    return new Promise((resolve) => {
-                        img.onload = resolve;
-                        img.onerror = resolve;
-                        setTimeout(resolve, 300);
-                    });
-                }));
-            }
+    // Same sheet as the print output, as a PDF page of that physical size
+    const downloadPdf = async () => {
+        setIsExporting(true);
+        try {
+            const pdf = await buildSheetPdf(await renderPrint(), getSheetSize(printSettings));
+            downloadBlob(pdf, `photobooth-${Date.now()}.pdf`);
+            await notifyExport();
+        } catch (err) {
+            console.error("PDF export failed", err);
+        } finally {
+            setIsExporting(false);
+        }
+    };
 
-            if (filterValue) {
-                testImages.forEach((img) => {
-                    const imgElement = img as HTMLImageElement;
-                    imgElement.style.setProperty('filter', filterValue, 'important');
-                    imgElement.style.filter = filterValue;
-                });
-                await new Promise(r => setTimeout(r, 50));
-            }
+    // Frames only depend on the model, so they can be reused between exports
+    const getAnimationFrame = async (model: StripModel, frameIndex: number): Promise<HTMLCanvasElement> => {
+        const cacheKey = `${frameIndex}-${JSON.stringify(model.filters)}-${borderColor}`;
+        const cached = frameCacheRef.current.get(cacheKey);
+        if (cached) return cached;
 
-            // Capture test frame from EXPORT container
-            let testCanvas = await html2canvas(exportRef.current, {
-                useCORS: true,
-                scale: 1.5,
-                backgroundColor: null,
-                logging: false,
-                allowTaint: false,
-                scrollX: 0,
-                scrollY: 0,
-                onclone: (clonedDoc) => {
-                    burnInFilter(clonedDoc, filterValue);
-                }
-            });
+        const canvas = await renderStrip(model, { frameIndex, scale: 1.5 });
+        frameCacheRef.current.set(cacheKey, canvas);
+        return canvas;
+    };
 
-            const width = testCanvas.width;
-            const height = testCanvas.height;
-
-            const gif = new GIF({
-                workers: 4,
-                quality: 15,
-                width: width,
-                height: height,
-                workerScript: '/gif.worker.js',
-                repeat: 0,
-                background: borderColor
-            });
+    // Encodes the animated strip; resolves null when the bursts are too short to animate
+    const renderGif = async (): Promise<Blob | null> => {
+        const gifModule = await import("gif.js");
+        const GIF = gifModule.default || gifModule;
 
-            const loops = 3;
-            const totalFrames = loops * burstLength;
-            let currentFrame = 0;
-
-            const getFrame = async (frameIndex: number): Promise<HTMLCanvasElement> => {
-                const cacheKey = `${frameIndex}-${filter}-${borderColorState}`;
-
-                if (frameCacheRef.current.has(cacheKey)) {
-                    const cached = frameCacheRef.current.get(cacheKey)!;
-                    const cloned = document.createElement('canvas');
-                    cloned.width = cached.width;
-                    cloned.height = cached.height;
-                    cloned.getContext('2d')?.drawImage(cached, 0, 0);
-                    return cloned;
-                }
-
-                setDisplayFrameIndex(frameIndex);
-                await new Promise(r => setTimeout(r, 100));
-
-                // Wait for images in EXPORT container
-                if (exportRef.current) {
-                    const images = exportRef.current.querySelectorAll('img');
-                    await Promise.all(Array.from(images).map(img => {
-                        if (img.complete) return Promise.resolve();
-                        return new Promise(resolve => {
-                            img.onload = resolve;
-                            img.onerror = resolve;
-                            setTimeout(resolve, 300);
-                        });
-                    }));
-                }
-
-                await new Promise(r => setTimeout(r, 50));
-
-                let canvas = await html2canvas(exportRef.current!, {
-                    useCORS: true,
-                    scale: 1.5,
-                    backgroundColor: null,
-                    logging: false,
-                    allowTaint: false,
-                    scrollX: 0,
-                    scrollY: 0,
-                    onclone: (clonedDoc) => {
-                        burnInFilter(clonedDoc, filterValue);
-                    }
-                });
-
-                frameCacheRef.current.set(cacheKey, canvas);
-                return canvas;
-            };
-
-            for (let loop = 0; loop < loops; loop++) {
-                for (let i = 0; i < burstLength; i++) {
-                    const canvas = await getFrame(i);
-                    gif.addFrame(canvas, { delay: 100 });
-                    currentFrame++;
-                    const captureProgress = Math.round((currentFrame / totalFrames) * 80);
-                    setGifProgress(captureProgress);
-                    if (currentFrame % 5 === 0) {
-                        await new Promise(r => setTimeout(r, 0));
-                    }
-                }
-            }
+        if (timeline.length <= 1) {
+            console.warn("Timeline has 1 frame or less, cannot generate animated GIF");
+            return null;
+        }
+
+        const model = getStripModel();
+        const getFrame = (frameIndex: number) => getAnimationFrame(model, frameIndex);
+
+        const firstFrame = await getFrame(timeline[0].frameIndex);
 
-            setDisplayFrameIndex(null);
+        // gif.js counts repeats after the first play: 0 = forever, -1 = play once
+        const repeat = animation.loops === 0 ? 0 : animation.loops === 1 ? -1 : animation.loops - 1;
+
+        const gif = new GIF({
+            workers: 4,
+            quality: 15,
+            width: firstFrame.width,
+            height: firstFrame.height,
+            workerScript: '/gif.worker.js',
+            repeat,
+            background: borderColor
+        });
+
+        for (let i = 0; i < timeline.length; i++) {
+            const canvas = await getFrame(timeline[i].frameIndex);
+            gif.addFrame(canvas, { delay: timeline[i].delay });
+            const captureProgress = Math.round(((i + 1) / timeline.length) * 80);
+            setExportProgress(captureProgress);
+            if ((i + 1) % 5 === 0) {
+                await new Promise(r => setTimeout(r, 0));
+            }
+        }
 
+        return new Promise<Blob>((resolve) => {
             gif.on('finished', (blob: Blob) => {
-                setGifProgress(100);
-                const url = URL.createObjectURL(blob);
-                const link = document.createElement('a');
-                link.href = url;
-                link.download = `photobooth-motion-${Date.now()}.gif`;
-                link.style.display = 'none';
-                document.body.appendChild(link);
-                link.click();
-                setTimeout(() => {
-                    document.body.removeChild(link);
-                    URL.revokeObjectURL(url);
-                    setIsExporting(false);
-                    setGifProgress(0);
-                }, 100);
+                setExportProgress(100);
+                resolve(blob);
             });
 
             gif.on('progress', (p: number) => {
                 const renderProgress = Math.round(p * 100);
                 const renderProgressScaled = 80 + Math.round(renderProgress * 0.19);
-                setGifProgress(Math.min(99, renderProgressScaled));
+                setExportProgress(Math.min(99, renderProgressScaled));
             });
 
             gif.render();
+        });
+    };
 
+    const downloadGif = async () => {
+        setIsExporting(true);
+        try {
+            const blob = await renderGif();
+            if (blob) {
+                downloadBlob(blob, `photobooth-motion-${Date.now()}.gif`);
+                await notifyExport();
+            }
         } catch (err) {
             console.error("GIF export failed", err);
+        } finally {
+            setIsExporting(false);
+            setExportProgress(0);
+        }
+    };
+
+    const downloadVideo = async (format: VideoFormat) => {
+        if (timeline.length <= 1) {
+            console.warn("Timeline has 1 frame or less, cannot generate video");
+            return;
+        }
+
+        setIsExporting(true);
+        try {
+            const model = getStripModel();
+            const frames: VideoFrame[] = [];
+            for (let i = 0; i < timeline.length; i++) {
+                frames.push({ canvas: await getAnimationFrame(model, timeline[i].frameIndex), delay: timeline[i].delay });
+                setExportProgress(Math.round(((i + 1) / timeline.length) * 20));
+            }
+            // Videos carry no loop count, so bake the plays in; "forever" is left to the player
+            const plays = animation.loops === 0 ? 1 : animation.loops;
+            const sequence = Array.from({ length: plays }, () => frames).flat();
+
+            const blob = await recordVideo(sequence, {
+                format,
+                onProgress: (p) => setExportProgress(Math.min(99, 20 + Math.round(p * 79))),
+            });
+            setExportProgress(100);
+            downloadBlob(blob, `photobooth-motion-${Date.now()}.${format}`);
+            await notifyExport();
+        } catch (err) {
+            console.error("Video export failed", err);
+        } finally {
+            setIsExporting(false);
+            setExportProgress(0);
+        }
+    };
+
+    const [includeGifInShare, setIncludeGifInShare] = useState(false);
+    // The delete token is only handed out once, so it's kept with the link for "Remove shared link"
+    const [share, setShare] = useState<{ id: string; url: string; qrCode: string; deleteToken: string } | null>(null);
+    const [shareError, setShareError] = useState<string | null>(null);
+
+    // Uploads the strip (and optionally its GIF) and shows a QR code for the share page
+    const shareStrip = async () => {
+        setIsExporting(true);
+        setShareError(null);
+        try {
+            const canvas = await renderStrip(getStripModel(), { scale: 2 });
+            const image = await canvasToBlob(canvas, "image/png");
+            if (!image) throw new Error("Could not render strip");
+
+            const form = new FormData();
+            form.append("image", image, "strip.png");
+            if (includeGifInShare) {
+                const gif = await renderGif();
+                if (gif) form.append("gif", gif, "motion.gif");
+            }
+
+            const res = await fetch("/api/strips", { method: "POST", body: form });
+            const body = await res.json();
+            if (!res.ok) throw new Error(body.error || "Upload failed");
+
+            // Guests' phones can't reach localhost, so events can point links at a public host
+            const baseUrl = process.env.NEXT_PUBLIC_SHARE_BASE_URL || window.location.origin;
+            const url = `${baseUrl.replace(/\/$/, "")}/s/${body.id}`;
+            const QRCode = await import("qrcode");
+            setShare({
+                id: body.id,
+                url,
+                qrCode: await QRCode.toDataURL(url, { margin: 1, width: 240 }),
+                deleteToken: body.deleteToken,
+            });
+            await notifyExport();
+        } catch (err) {
+            console.error("Share failed", err);
+            setShareError(err instanceof Error ? err.message : "Share failed");
+        } finally {
+            setIsExporting(false);
+            setExportProgress(0);
+        }
+    };
+
+    const removeShare = async () => {
+        if (!share) return;
+        setIsExporting(true);
+        setShareError(null);
+        try {
+            const res = await fetch(`/api/strips/${encodeURIComponent(share.id)}`, {
+                method: "DELETE",
+                headers: { "x-delete-token": share.deleteToken },
+            });
+            // Already gone (expired or removed) counts as removed
+            if (!res.ok && res.status !== 404) {
+                const body = await res.json().catch(() => ({}));
+                throw new Error(body.error || "Could not remove the link");
+            }
+            setShare(null);
+        } catch (err) {
+            console.error("Removing share failed", err);
+            setShareError(err instanceof Error ? err.message : "Could not remove the link");
+        } finally {
             setIsExporting(false);
-            setDisplayFrameIndex(null);
         }
     };
 
@@ -461,58 +902,16 @@ export default function PhotoEditor({ photos, layout, filter, onReset }: PhotoEd
 
     return (
         <div className={styles.container}>
-            {/* Hidden Export Container - Renders unscaled for 1:1 capture */}
-            <div style={{ position: 'fixed', left: '-9999px', top: 0, width: '380px', zIndex: -1 }}>
-                <div
-                    ref={exportRef}
-                    className={`${styles.photoStrip} ${styles[getLayoutClassName(layout)]}`}
-                    style={{ backgroundColor: borderColor, width: '100%', maxWidth: '380px' }}
-                >
-                    <div className={styles.header}>
-                        <span className={styles.date}>{new Date().toLocaleDateString()}</span>
-                        <span className={styles.brand}>PHOTOBOOTH</span>
-                    </div>
-
-                    <div className={styles.grid}>
-                        {photos.map((burst, i) => {
-                            const frameIndex = displayFrameIndex === null ? burst.length - 1 : Math.min(displayFrameIndex, burst.length - 1);
-                            const src = burst[frameIndex];
-                            return (
-                                <div key={i} className={styles.photoFrame}>
-                                    <img
-                                        key={`${i}-${frameIndex}`}
-                                        src={src}
-                                        alt={`photo-${i}-${frameIndex}`}
-                                        style={getFilterStyle(filter)}
-                                    />
-                                </div>
-                            );
-                        })}
-                    </div>
-
-                    {/* Static Stickers for Export */}
-                    {stickers.map((s) => (
-                        <div
-                            key={s.id}
-                            className={styles.sticker}
-                            style={{
-                                position: 'absolute',
-                                zIndex: 10,
-                                transform: `translate(${s.x}px, ${s.y}px)`,
-                                WebkitTransform: `translate(${s.x}px, ${s.y}px)`
-                            }}
-                        >
-                            <div style={{ transform: `scale(${s.scale})`, transformOrigin: 'center center' }}>
-                                <div className={styles.stickerContent}>
-                                    {s.content}
-                                </div>
-                            </div>
-                        </div>
-                    ))}
+            <div className={styles.controlsSidebar}>
+                <div className={styles.historyBar}>
+                    <button className="btn" onClick={undo} disabled={history.past.length === 0} title="Undo (Ctrl+Z)">
+                        <Undo2 size={16} /> Undo
+                    </button>
+                    <button className="btn" onClick={redo} disabled={history.future.length === 0} title="Redo (Ctrl+Shift+Z)">
+                        <Redo2 size={16} /> Redo
+                    </button>
                 </div>
-            </div>
 
-            <div className={styles.controlsSidebar}>
                 <div className={styles.section}>
                     <h3>Border</h3>
                     <div className={styles.colorGrid}>
@@ -527,20 +926,363 @@ export default function PhotoEditor({ photos, layout, filter, onReset }: PhotoEd
                     </div>
                 </div>
 
+                <div className={styles.section}>
+                    <h3>Filter</h3>
+                    <div className={styles.filterTarget}>
+                        <select
+                            value={filterTarget ?? ""}
+                            onChange={(e) => setFilterTarget(e.target.value === "" ? null : Number(e.target.value))}
+                            className={styles.select}
+                            aria-label="Apply filter to"
+                        >
+                            <option value="">Whole strip</option>
+                            {layout.slots.map((_, i) => (
+                                <option key={i} value={i}>Photo {i + 1}{slotFilters[i] ? ` · ${slotFilters[i]?.name}` : ""}</option>
+                            ))}
+                        </select>
+                        {filterTarget !== null && slotFilters[filterTarget] && (
+                            <button className="btn" onClick={() => setSlotFilter(filterTarget, null)}>
+                                Match Strip
+                            </button>
+                        )}
+                    </div>
+                    {filterTarget === null ? (
+                        <FilterControls value={stripFilter} onChange={setStripFilter} />
+                    ) : (
+                        <FilterControls value={slotFilterList[filterTarget]} onChange={(next) => setSlotFilter(filterTarget, next)} />
+                    )}
+                    <p className={styles.hint}>Click a photo in the preview to filter just that shot.</p>
+                </div>
+
                 <div className={styles.section}>
                     <h3>Stickers</h3>
-                    <div className={styles.stickerGrid}>
-                        {STICKERS.map((s) => (
-                            <button key={s} className={styles.stickerBtn} onClick={() => addSticker(s)}>
-                                {s}
+                    <div className={styles.stickerTabs} role="tablist">
+                        {stickerPacks.map((pack) => (
+                            <button
+                                key={pack.id}
+                                role="tab"
+                                aria-selected={stickerTab === pack.id}
+                                className={`${styles.stickerTab} ${stickerTab === pack.id ? styles.activeTab : ''}`}
+                                onClick={() => setStickerTab(pack.id)}
+                            >
+                                {pack.name}
+                            </button>
+                        ))}
+                        <button
+                            role="tab"
+                            aria-selected={stickerTab === UPLOADS_TAB}
+                            className={`${styles.stickerTab} ${stickerTab === UPLOADS_TAB ? styles.activeTab : ''}`}
+                            onClick={() => setStickerTab(UPLOADS_TAB)}
+                        >
+                            Mine
+                        </button>
+                    </div>
+                    <div className={styles.stickerGrid} role="tabpanel">
+                        {(stickerTab === UPLOADS_TAB ? uploadedItems : activePack?.stickers ?? []).map((item) => (
+                            <button key={item.id} className={styles.stickerBtn} onClick={() => addSticker(item)} title={item.name}>
+                                {item.image ? <img src={item.image} alt={item.name} className={styles.stickerImage} /> : item.content}
                             </button>
                         ))}
+                        {stickerTab === UPLOADS_TAB && (
+                            <button className={styles.stickerBtn} onClick={() => stickerInputRef.current?.click()} aria-label="Upload a sticker">
+                                <Upload size={24} />
+                            </button>
+                        )}
+                    </div>
+                    <input
+                        ref={stickerInputRef}
+                        type="file"
+                        accept="image/png,image/svg+xml,image/webp,image/gif"
+                        onChange={handleStickerUpload}
+                        hidden
+                    />
+                    {stickerError && <p className={styles.shareError}>{stickerError}</p>}
+                    {selectedSticker && (
+                        <div className={styles.stickerActions}>
+                            <button className={styles.alignBtn} onClick={() => rotateSticker(selectedSticker.id, -15)} aria-label="Rotate left" title="Rotate left">
+                                <RotateCcw size={14} />
+                            </button>
+                            <button className={styles.alignBtn} onClick={() => rotateSticker(selectedSticker.id, 15)} aria-label="Rotate right" title="Rotate right">
+                                <RotateCw size={14} />
+                            </button>
+                            <button
+                                className={`${styles.alignBtn} ${selectedSticker.flipped ? styles.activeAlign : ''}`}
+                                onClick={() => updateSticker(selectedSticker.id, { flipped: !selectedSticker.flipped })}
+                                aria-label="Flip"
+                                title="Flip"
+                            >
+                                <FlipHorizontal2 size={14} />
+                            </button>
+                            <button className={styles.alignBtn} onClick={() => moveSticker(selectedSticker.id, 1)} aria-label="Bring forward" title="Bring forward">
+                                <ArrowUp size={14} />
+                            </button>
+                            <button className={styles.alignBtn} onClick={() => moveSticker(selectedSticker.id, -1)} aria-label="Send backward" title="Send backward">
+                                <ArrowDown size={14} />
+                            </button>
+                            <button className={styles.alignBtn} onClick={() => duplicateSticker(selectedSticker.id)} aria-label="Duplicate" title="Duplicate">
+                                <Copy size={14} />
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                <div className={styles.section}>
+                    <h3>Text</h3>
+                    <div className={styles.textControls}>
+                        {layout.header && (
+                            <>
+                                <label className={styles.fieldRow}>
+                                    <span>Date line</span>
+                                    <input
+                                        type="text"
+                                        className={styles.textInput}
+                                        value={header.date}
+                                        maxLength={30}
+                                        onChange={(e) => updateHeader({ date: e.target.value })}
+                                    />
+                                </label>
+                                <label className={styles.fieldRow}>
+                                    <span>Title</span>
+                                    <input
+                                        type="text"
+                                        className={styles.textInput}
+                                        value={header.brand}
+                                        maxLength={30}
+                                        onChange={(e) => updateHeader({ brand: e.target.value })}
+                                    />
+                                </label>
+                            </>
+                        )}
+                        <button className="btn" onClick={addText} style={{ width: '100%' }}>
+                            <Type size={16} /> Add Text
+                        </button>
+                        {selectedText && (
+                            <>
+                                <textarea
+                                    className={styles.textInput}
+                                    value={selectedText.text}
+                                    rows={2}
+                                    onChange={(e) => updateText(selectedText.id, { text: e.target.value })}
+                                    aria-label="Text"
+                                />
+                                <div className={styles.optionRow}>
+                                    <select
+                                        value={selectedText.font}
+                                        onChange={(e) => updateText(selectedText.id, { font: e.target.value })}
+                                        className={styles.select}
+                                        aria-label="Font"
+                                    >
+                                        {TEXT_FONTS.map((f) => (
+                                            <option key={f.id} value={f.id}>{f.label}</option>
+                                        ))}
+                                    </select>
+                                    <input
+                                        type="color"
+                                        value={selectedText.color}
+                                        onChange={(e) => updateText(selectedText.id, { color: e.target.value })}
+                                        className={styles.colorInput}
+                                        aria-label="Text colour"
+                                    />
+                                    <div className={styles.alignButtons}>
+                                        {TEXT_ALIGNS.map(({ value, icon: Icon }) => (
+                                            <button
+                                                key={value}
+                                                className={`${styles.alignBtn} ${selectedText.align === value ? styles.activeAlign : ''}`}
+                                                onClick={() => updateText(selectedText.id, { align: value })}
+                                                aria-label={`Align ${value}`}
+                                            >
+                                                <Icon size={14} />
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <label className={styles.sliderRow}>
+                                    <span>Size</span>
+                                    <input
+                                        type="range"
+                                        min={12}
+                                        max={96}
+                                        value={selectedText.size}
+                                        onChange={(e) => updateText(selectedText.id, { size: Number(e.target.value) })}
+                                    />
+                                    <span className={styles.sliderValue}>{selectedText.size}px</span>
+                                </label>
+                                <div className={styles.optionRow}>
+                                    <select
+                                        value={selectedText.effect}
+                                        onChange={(e) => updateText(selectedText.id, { effect: e.target.value as TextEffect })}
+                                        className={styles.select}
+                                        aria-label="Text effect"
+                                    >
+                                        <option value="none">No effect</option>
+                                        <option value="outline">Outline</option>
+                                        <option value="shadow">Shadow</option>
+                                    </select>
+                                    {selectedText.effect !== "none" && (
+                                        <input
+                                            type="color"
+                                            value={selectedText.effectColor}
+                                            onChange={(e) => updateText(selectedText.id, { effectColor: e.target.value })}
+                                            className={styles.colorInput}
+                                            aria-label="Effect colour"
+                                        />
+                                    )}
+                                    <button className="btn" onClick={() => removeText(selectedText.id)}>
+                                        <X size={14} /> Delete
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                        {texts.length > 0 && !selectedText && (
+                            <p className={styles.hint}>Drag a text in the preview to move or edit it.</p>
+                        )}
+                    </div>
+                </div>
+
+                <div className={styles.section}>
+                    <h3>Draw</h3>
+                    <div className={styles.textControls}>
+                        <button className={`btn ${isDrawing ? 'btn-primary' : ''}`} onClick={() => setIsDrawing(!isDrawing)} style={{ width: '100%' }}>
+                            <Pencil size={16} /> {isDrawing ? "Done Drawing" : "Draw on Strip"}
+                        </button>
+                        <div className={styles.alignButtons}>
+                            {BRUSHES.map(({ mode, label, icon: Icon }) => (
+                                <button
+                                    key={mode}
+                                    className={`${styles.alignBtn} ${brushMode === mode ? styles.activeAlign : ''}`}
+                                    onClick={() => {
+                                        setBrushMode(mode);
+                                        setIsDrawing(true);
+                                    }}
+                                    aria-label={label}
+                                    title={label}
+                                >
+                                    <Icon size={14} />
+                                </button>
+                            ))}
+                        </div>
+                        <label className={styles.sliderRow}>
+                            <span>Brush</span>
+                            <input
+                                type="range"
+                                min={1}
+                                max={40}
+                                value={brushSize}
+                                onChange={(e) => setBrushSize(Number(e.target.value))}
+                            />
+                            <span className={styles.sliderValue}>{brushSize}px</span>
+                        </label>
+                        <div className={styles.colorGrid}>
+                            {INK_COLORS.map((c) => (
+                                <button
+                                    key={c}
+                                    className={styles.colorBtn}
+                                    style={{ backgroundColor: c, border: c === brushColor ? "2px solid #333" : "1px solid #ddd" }}
+                                    onClick={() => setBrushColor(c)}
+                                    aria-label={`Ink ${c}`}
+                                />
+                            ))}
+                            <input
+                                type="color"
+                                value={brushColor}
+                                onChange={(e) => setBrushColor(e.target.value)}
+                                className={styles.colorInput}
+                                aria-label="Custom ink colour"
+                            />
+                        </div>
+                        <button className="btn" onClick={clearStrokes} disabled={strokes.length === 0} style={{ width: '100%' }}>
+                            <Trash2 size={14} /> Clear Drawing
+                        </button>
+                    </div>
+                </div>
+
+                <div className={styles.section}>
+                    <h3>Animation</h3>
+                    <div className={styles.animationControls}>
+                        <label className={styles.sliderRow}>
+                            <span>Speed</span>
+                            <input
+                                type="range"
+                                min={40}
+                                max={500}
+                                step={10}
+                                value={animation.delay}
+                                onChange={(e) => updateAnimation({ delay: Number(e.target.value) })}
+                            />
+                            <span className={styles.sliderValue}>{animation.delay}ms</span>
+                        </label>
+                        <label className={styles.sliderRow}>
+                            <span>Hold snap</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={3000}
+                                step={100}
+                                value={animation.holdFinal}
+                                onChange={(e) => updateAnimation({ holdFinal: Number(e.target.value) })}
+                            />
+                            <span className={styles.sliderValue}>{(animation.holdFinal / 1000).toFixed(1)}s</span>
+                        </label>
+                        <label className={styles.sliderRow}>
+                            <span>Trim start</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={burstLength - 1}
+                                value={trimRange.start}
+                                onChange={(e) => updateAnimation({ trimStart: Math.min(Number(e.target.value), trimRange.end) })}
+                            />
+                            <span className={styles.sliderValue}>{trimRange.start + 1}</span>
+                        </label>
+                        <label className={styles.sliderRow}>
+                            <span>Trim end</span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={burstLength - 1}
+                                value={trimRange.end}
+                                onChange={(e) => {
+                                    const end = Math.max(Number(e.target.value), trimRange.start);
+                                    // Keep "to the end" when the handle sits on the last frame
+                                    updateAnimation({ trimEnd: end === burstLength - 1 ? null : end });
+                                }}
+                            />
+                            <span className={styles.sliderValue}>{trimRange.end + 1}</span>
+                        </label>
+                        <div className={styles.optionRow}>
+                            <label className={styles.checkboxRow}>
+                                <input
+                                    type="checkbox"
+                                    checked={animation.pingPong}
+                                    onChange={(e) => updateAnimation({ pingPong: e.target.checked })}
+                                />
+                                Boomerang
+                            </label>
+                            <select
+                                value={animation.loops}
+                                onChange={(e) => updateAnimation({ loops: Number(e.target.value) })}
+                                className={styles.select}
+                                aria-label="Loops"
+                            >
+                                {LOOP_OPTIONS.map((n) => (
+                                    <option key={n} value={n}>{n === 0 ? "Loop forever" : `Play ${n}×`}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <button className="btn" onClick={() => setIsPlaying(!isPlaying)} style={{ width: '100%' }}>
+                            {isPlaying ? <><Pause size={16} /> Stop Preview</> : <><Play size={16} /> Preview Motion</>}
+                        </button>
+                        <p className={styles.hint}>
+                            {timeline.length} frames · {(getTimelineDuration(timeline) / 1000).toFixed(1)}s per play
+                        </p>
                     </div>
                 </div>
 
                 <div className={styles.section}>
                     <h3>Actions</h3>
-                    <button className="btn" onClick={onReset} style={{ width: '100%', marginBottom: '0.5rem' }}>Start Over</button>
+                    <button className="btn" onClick={onReset} style={{ width: '100%', marginBottom: '0.5rem' }}>
+                        {kiosk ? "Next Guest" : "Start Over"}
+                    </button>
                     <div className={styles.exportBtns}>
                         <button className="btn btn-primary" onClick={() => downloadImage("png")} disabled={isExporting}>
                             <ImageIcon size={16} /> PNG
@@ -551,14 +1293,118 @@ export default function PhotoEditor({ photos, layout, filter, onReset }: PhotoEd
                         <button className="btn btn-primary" onClick={downloadGif} disabled={isExporting}>
                             <Film size={16} /> GIF
                         </button>
-                        {isExporting && gifProgress > 0 && (
+                        <button className="btn btn-primary" onClick={downloadPdf} disabled={isExporting} title="At the paper size chosen under Print">
+                            <FileText size={16} /> PDF
+                        </button>
+                        <button className="btn btn-primary" onClick={() => downloadVideo("webm")} disabled={isExporting || !videoSupport.webm}
+                            title={videoSupport.webm ? undefined : "Not supported in this browser"}
+                        >
+                            <Video size={16} /> WebM
+                        </button>
+                        <button className="btn btn-primary" onClick={() => downloadVideo("mp4")} disabled={isExporting || !videoSupport.mp4}
+                            title={videoSupport.mp4 ? undefined : "Not supported in this browser"}
+                        >
+                            <Video size={16} /> MP4
+                        </button>
+                        {isExporting && exportProgress > 0 && (
                             <div className={styles.progressBar}>
-                                <div className={styles.progressBarFill} style={{ width: `${gifProgress}%` }}></div>
-                                <span className={styles.progressText}>{gifProgress}%</span>
+                                <div className={styles.progressBarFill} style={{ width: `${exportProgress}%` }}></div>
+                                <span className={styles.progressText}>{exportProgress}%</span>
                             </div>
                         )}
                     </div>
                 </div>
+
+                <div className={styles.section}>
+                    <h3>Print</h3>
+                    <div className={styles.textControls}>
+                        {/* The operator sets up printing; guests in kiosk mode just print */}
+                        {!kiosk && (
+                            <>
+                                <label className={styles.fieldRow}>
+                                    <span>Paper</span>
+                                    <select
+                                        value={printSettings.paperId}
+                                        onChange={(e) => savePrint({ ...printSettings, paperId: e.target.value })}
+                                        className={styles.select}
+                                    >
+                                        {PAPER_SIZES.map((p) => (
+                                            <option key={p.id} value={p.id}>{p.name}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className={styles.fieldRow}>
+                                    <span>Resolution</span>
+                                    <select
+                                        value={printSettings.dpi}
+                                        onChange={(e) => savePrint({ ...printSettings, dpi: Number(e.target.value) })}
+                                        className={styles.select}
+                                    >
+                                        {DPI_OPTIONS.map((dpi) => (
+                                            <option key={dpi} value={dpi}>{dpi} DPI</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <div className={styles.optionRow}>
+                                    <label className={styles.checkboxRow}>
+                                        <input
+                                            type="checkbox"
+                                            checked={printSettings.bleed}
+                                            onChange={(e) => savePrint({ ...printSettings, bleed: e.target.checked })}
+                                        />
+                                        Bleed
+                                    </label>
+                                    <label className={styles.checkboxRow}>
+                                        <input
+                                            type="checkbox"
+                                            checked={printSettings.cropMarks}
+                                            onChange={(e) => savePrint({ ...printSettings, cropMarks: e.target.checked })}
+                                        />
+                                        Crop marks
+                                    </label>
+                                </div>
+                            </>
+                        )}
+                        <div className={styles.exportBtns}>
+                            <button className="btn btn-primary" onClick={printStrip} disabled={isExporting}>
+                                <Printer size={16} /> Print
+                            </button>
+                            <button className="btn" onClick={downloadPrint} disabled={isExporting}>
+                                <ImageIcon size={16} /> Print PNG
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                <div className={styles.section}>
+                    <h3>Share</h3>
+                    <label className={styles.checkboxRow}>
+                        <input
+                            type="checkbox"
+                            checked={includeGifInShare}
+                            onChange={(e) => setIncludeGifInShare(e.target.checked)}
+                        />
+                        Include GIF
+                    </label>
+                    <button className="btn" onClick={shareStrip} disabled={isExporting} style={{ width: '100%' }}>
+                        <QrCode size={16} /> Get Link
+                    </button>
+                    {shareError && <p className={styles.shareError}>{shareError}</p>}
+                    {share && (
+                        <div className={styles.shareResult}>
+                            <img src={share.qrCode} alt="QR code for the share link" className={styles.qrCode} />
+                            {/* A link would open a new tab and let guests out of the kiosk */}
+                            {kiosk ? (
+                                <span className={styles.shareLink}>{share.url}</span>
+                            ) : (
+                                <a href={share.url} target="_blank" rel="noreferrer" className={styles.shareLink}>{share.url}</a>
+                            )}
+                            <button className="btn" onClick={removeShare} disabled={isExporting}>
+                                <Trash2 size={16} /> Remove shared link
+                            </button>
+                        </div>
+                    )}
+                </div>
             </div>
 
             <div className={styles.previewArea} ref={previewContainerRef}>
@@ -573,63 +1419,88 @@ export default function PhotoEditor({ photos, layout, filter, onReset }: PhotoEd
                 }}>
                     <div
                         ref={stripRef}
-                        className={`${styles.photoStrip} ${styles[getLayoutClassName(layout)]}`}
-                        style={{ backgroundColor: borderColor }}
+                        className={styles.photoStrip}
+                        style={{ backgroundColor: borderColor, width: layout.width, height: layout.height }}
                     >
-                        <div className={styles.header}>
-                            <span className={styles.date}>{new Date().toLocaleDateString()}</span>
-                            <span className={styles.brand}>PHOTOBOOTH</span>
-                        </div>
+                        {layout.header && (
+                            <div
+                                className={styles.header}
+                                style={{ left: layout.header.x, top: layout.header.y, width: layout.header.width, height: layout.header.height }}
+                            >
+                                <span className={styles.headerStart} style={{ gap: LOGO_GAP }}>
+                                    {branding.logo && <img src={branding.logo} alt="" className={styles.logo} />}
+                                    <span className={styles.date}>{header.date}</span>
+                                </span>
+                                <span className={styles.brand}>{header.brand}</span>
+                            </div>
+                        )}
+                        {layout.footer && (
+                            <div
+                                className={styles.footer}
+                                style={{ left: layout.footer.x, top: layout.footer.y, width: layout.footer.width, height: layout.footer.height }}
+                            >
+                                {branding.footer}
+                            </div>
+                        )}
 
-                        <div className={styles.grid}>
-                            {photos.map((burst, i) => {
-                                // Determine which frame to show
-                                // If displayFrameIndex is null, show the last frame (static)
-                                // Else show the specific frame index (clamped to burst length)
-                                const frameIndex = displayFrameIndex === null ? burst.length - 1 : Math.min(displayFrameIndex, burst.length - 1);
-                                const src = burst[frameIndex];
-
-                                return (
-                                    <div key={i} className={styles.photoFrame}>
-                                        <img
-                                            key={`${i}-${frameIndex}`} // Force re-render
-                                            src={src}
-                                            alt={`photo-${i}-${frameIndex}`}
-                                            style={getFilterStyle(filter)}
-                                            onLoad={() => {
-                                                // Trigger scale recalculation when image loads
-                                                if (previewContainerRef.current && stripRef.current) {
-                                                    const containerHeight = previewContainerRef.current.clientHeight;
-                                                    const stripHeight = stripRef.current.scrollHeight;
-                                                    const padding = 40;
-                                                    const availableHeight = containerHeight - padding;
-                                                    let newScale = availableHeight / stripHeight;
-                                                    const containerWidth = previewContainerRef.current.clientWidth;
-                                                    const stripWidth = stripRef.current.scrollWidth;
-                                                    const widthScale = (containerWidth - padding) / stripWidth;
-                                                    newScale = Math.min(newScale, widthScale);
-                                                    newScale = Math.max(0.4, Math.min(0.9, newScale));
-                                                    setScale(newScale);
-                                                    setWrapperHeight(stripHeight * newScale);
-                                                }
-                                            }}
-                                        />
-                                    </div>
-                                );
-                            })}
-                        </div>
+                        {layout.slots.map((slot, i) => {
+                            // Show the snap unless the motion preview is playing
+                            const burst = photos[i] || [];
+                            const frame = burst[previewFrame === null ? burst.length - 1 : Math.min(previewFrame, burst.length - 1)];
+
+                            return (
+                                <div
+                                    key={i}
+                                    className={`${styles.photoFrame} ${filterTarget === i ? styles.targetFrame : ''}`}
+                                    onClick={() => setFilterTarget(filterTarget === i ? null : i)}
+                                    style={{
+                                        left: slot.x,
+                                        top: slot.y,
+                                        width: slot.width,
+                                        height: slot.height,
+                                        transform: slot.rotation ? `rotate(${slot.rotation}deg)` : undefined,
+                                    }}
+                                >
+                                    {frame && <FilteredImage frame={frame} filter={slotFilterList[i]} alt={`photo-${i}`} />}
+                                </div>
+                            );
+                        })}
 
                         {/* Render stickers on top of the strip */}
                         {stickers.map((s) => (
                             <DraggableSticker
                                 key={s.id}
                                 sticker={s}
+                                selected={s.id === selectedStickerId}
+                                onSelect={setSelectedStickerId}
                                 onRemove={removeSticker}
                                 onResize={resizeSticker}
                                 onStop={updateStickerPosition}
+                                onTransform={updateSticker}
                                 scaleFactor={scale}
                             />
                         ))}
+
+                        {texts.map((t) => (
+                            <DraggableText
+                                key={t.id}
+                                layer={t}
+                                selected={t.id === selectedTextId}
+                                onSelect={setSelectedTextId}
+                                onRemove={removeText}
+                                onResize={resizeText}
+                                onStop={(id, x, y) => updateText(id, { x, y })}
+                                scaleFactor={scale}
+                            />
+                        ))}
+
+                        <DoodleLayer
+                            strokes={strokes}
+                            width={layout.width}
+                            height={layout.height}
+                            brush={isDrawing ? { mode: brushMode, color: brushColor, size: brushSize } : null}
+                            onStroke={addStroke}
+                        />
                     </div>
                 </div>
             </div>
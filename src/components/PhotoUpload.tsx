@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Check, ChevronLeft, ChevronRight, Film, Upload as UploadIcon, X } from "lucide-react";
+import styles from "./PhotoUpload.module.css";
+import FilteredImage from "./FilteredImage";
+import { DEFAULT_FILTER } from "@/lib/filters";
+import { Burst, BurstOptions, releaseBursts } from "@/lib/frames";
+import { LayoutTemplate } from "@/lib/layouts";
+import { readUpload, Upload } from "@/lib/uploads";
+
+interface PhotoUploadProps {
+    layout: LayoutTemplate;
+    burstOptions: BurstOptions; // Frame rate and size for bursts sampled from videos
+    onComplete: (photos: Burst[]) => void; // The frames belong to the caller from here on
+}
+
+/**
+ * Builds the layout's photos from files instead of the webcam. The upload order
+ * is the slot order: the first uploads fill the slots, anything after is spare.
+ */
+export default function PhotoUpload({ layout, burstOptions, onComplete }: PhotoUploadProps) {
+    const [uploads, setUploads] = useState<Upload[]>([]);
+    const [pending, setPending] = useState(0); // Files still being read
+    const [errors, setErrors] = useState<string[]>([]);
+    const [dragging, setDragging] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const slotCount = layout.slots.length;
+    const isReady = uploads.length >= slotCount && pending === 0;
+
+    // Frames are released here until handed to onComplete, like the camera's
+    const uploadsRef = useRef<Upload[]>([]);
+    const handedOffRef = useRef(false);
+    const unmountedRef = useRef(false);
+
+    useEffect(() => {
+        uploadsRef.current = uploads;
+    }, [uploads]);
+
+    useEffect(() => {
+        unmountedRef.current = false;
+        return () => {
+            unmountedRef.current = true;
+            if (!handedOffRef.current) releaseBursts(uploadsRef.current.map((upload) => upload.burst));
+        };
+    }, []);
+
+    const addFiles = async (files: File[]) => {
+        setErrors([]);
+        setPending((n) => n + files.length);
+        // One at a time: decoding several phone photos or videos at once can exhaust memory
+        for (const file of files) {
+            try {
+                const upload = await readUpload(file, burstOptions);
+                if (unmountedRef.current) {
+                    releaseBursts([upload.burst]);
+                    return;
+                }
+                setUploads((prev) => [...prev, upload]);
+            } catch (err) {
+                console.error("Failed to read upload", err);
+                setErrors((prev) => [...prev, err instanceof Error ? err.message : `${file.name} could not be read`]);
+            } finally {
+                setPending((n) => n - 1);
+            }
+        }
+    };
+
+    const handleFiles = (fileList: FileList | null) => {
+        if (fileList && fileList.length > 0) addFiles(Array.from(fileList));
+        // Allow picking the same file again
+        if (fileInputRef.current) fileInputRef.current.value = "";
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setDragging(false);
+        handleFiles(e.dataTransfer.files);
+    };
+
+    const move = (from: number, to: number) => {
+        setUploads((prev) => {
+            if (to < 0 || to >= prev.length) return prev;
+            const next = [...prev];
+            [next[from], next[to]] = [next[to], next[from]];
+            return next;
+        });
+    };
+
+    // Puts an upload in a slot; whatever was there takes its old place
+    const assign = (from: number, value: string) => {
+        if (value === "spare") {
+            setUploads((prev) => [...prev.filter((_, i) => i !== from), prev[from]]);
+        } else {
+            move(from, Number(value));
+        }
+    };
+
+    const remove = (upload: Upload) => {
+        releaseBursts([upload.burst]);
+        setUploads((prev) => prev.filter((u) => u !== upload));
+    };
+
+    const complete = () => {
+        handedOffRef.current = true;
+        // Spares aren't needed any more
+        releaseBursts(uploads.slice(slotCount).map((upload) => upload.burst));
+        onComplete(uploads.slice(0, slotCount).map((upload) => upload.burst));
+    };
+
+    return (
+        <div className={styles.container}>
+            <div
+                className={`${styles.dropZone} ${dragging ? styles.dragging : ""}`}
+                onClick={() => fileInputRef.current?.click()}
+                onDragOver={(e) => {
+                    e.preventDefault();
+                    setDragging(true);
+                }}
+                onDragLeave={() => setDragging(false)}
+                onDrop={handleDrop}
+            >
+                <UploadIcon size={32} />
+                <p>Drop photos or a short video here, or tap to choose</p>
+                <p className={styles.hint}>
+                    {slotCount} photo{slotCount === 1 ? "" : "s"} needed. Videos use their last few seconds as motion frames.
+                </p>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*,video/*"
+                    multiple
+                    hidden
+                    onChange={(e) => handleFiles(e.target.files)}
+                />
+            </div>
+
+            {errors.map((error, i) => (
+                <p key={i} className={styles.error}>{error}</p>
+            ))}
+            {pending > 0 && <p className={styles.hint}>Reading {pending} file{pending === 1 ? "" : "s"}...</p>}
+
+            {uploads.length > 0 && (
+                <div className={styles.uploadGrid}>
+                    {uploads.map((upload, idx) => {
+                        const slot = idx < slotCount ? layout.slots[idx] : null;
+                        return (
+                            <div key={upload.id} className={`${styles.card} ${slot ? "" : styles.spare}`}>
+                                <div
+                                    className={styles.thumbWrapper}
+                                    style={slot ? { aspectRatio: `${slot.width} / ${slot.height}` } : undefined}
+                                >
+                                    {/* Shaped like its slot so the crop is visible before editing */}
+                                    <FilteredImage
+                                        frame={upload.burst[upload.burst.length - 1]}
+                                        filter={DEFAULT_FILTER}
+                                        alt={upload.name}
+                                        className={styles.thumb}
+                                        key={slot ? `${slot.width}x${slot.height}` : "spare"}
+                                    />
+                                    {upload.kind === "video" && (
+                                        <span className={styles.videoBadge} title={`${upload.burst.length} frames`}>
+                                            <Film size={12} />
+                                        </span>
+                                    )}
+                                    <button className={styles.removeBtn} onClick={() => remove(upload)} aria-label={`Remove ${upload.name}`}>
+                                        <X size={14} />
+                                    </button>
+                                </div>
+                                <select
+                                    className={styles.select}
+                                    value={slot ? idx : "spare"}
+                                    onChange={(e) => assign(idx, e.target.value)}
+                                    aria-label={`Slot for ${upload.name}`}
+                                >
+                                    {Array.from({ length: Math.min(slotCount, uploads.length) }, (_, i) => (
+                                        <option key={i} value={i}>Photo {i + 1}</option>
+                                    ))}
+                                    <option value="spare">Not used</option>
+                                </select>
+                                <div className={styles.moveButtons}>
+                                    <button onClick={() => move(idx, idx - 1)} disabled={idx === 0} aria-label="Move earlier">
+                                        <ChevronLeft size={16} />
+                                    </button>
+                                    <button onClick={() => move(idx, idx + 1)} disabled={idx === uploads.length - 1} aria-label="Move later">
+                                        <ChevronRight size={16} />
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <button className="btn btn-primary" onClick={complete} disabled={!isReady}>
+                <Check size={16} /> Use These
+            </button>
+        </div>
+    );
+}
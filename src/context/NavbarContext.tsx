@@ -5,15 +5,18 @@ import React, { createContext, useContext, useState, ReactNode } from "react";
 interface NavbarContextType {
     centerContent: ReactNode;
     setCenterContent: (content: ReactNode) => void;
+    linksHidden: boolean; // Kiosk mode hides the way out of the booth
+    setLinksHidden: (hidden: boolean) => void;
 }
 
 const NavbarContext = createContext<NavbarContextType | undefined>(undefined);
 
 export function NavbarProvider({ children }: { children: ReactNode }) {
     const [centerContent, setCenterContent] = useState<ReactNode>(null);
+    const [linksHidden, setLinksHidden] = useState(false);
 
     return (
-        <NavbarContext.Provider value={{ centerContent, setCenterContent }}>
+        <NavbarContext.Provider value={{ centerContent, setCenterContent, linksHidden, setLinksHidden }}>
             {children}
         </NavbarContext.Provider>
     );
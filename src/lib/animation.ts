@@ -0,0 +1,50 @@
+// Timing settings for motion exports (GIF and video) and the animated preview.
+
+export interface AnimationSettings {
+    delay: number; // ms per burst frame
+    loops: number; // times the animation plays, 0 = forever
+    pingPong: boolean; // play forward then backward
+    holdFinal: number; // extra ms on the final snap
+    trimStart: number; // first burst frame to use
+    trimEnd: number | null; // last burst frame to use, null = the end of the burst
+}
+
+export interface TimelineFrame {
+    frameIndex: number;
+    delay: number;
+}
+
+export const DEFAULT_ANIMATION: AnimationSettings = {
+    delay: 100,
+    loops: 3,
+    pingPong: false,
+    holdFinal: 0,
+    trimStart: 0,
+    trimEnd: null,
+};
+
+export const getTrimRange = (settings: AnimationSettings, burstLength: number) => {
+    const last = Math.max(0, burstLength - 1);
+    const end = Math.min(settings.trimEnd ?? last, last);
+    const start = Math.min(Math.max(0, settings.trimStart), end);
+    return { start, end };
+};
+
+/** One play-through of the animation; loops are applied by the exporter. */
+export const buildTimeline = (settings: AnimationSettings, burstLength: number): TimelineFrame[] => {
+    const { start, end } = getTrimRange(settings, burstLength);
+    const indices: number[] = [];
+    for (let i = start; i <= end; i++) indices.push(i);
+    if (settings.pingPong) {
+        // Skip both ends on the way back so they don't show twice in a row when looping
+        for (let i = end - 1; i > start; i--) indices.push(i);
+    }
+
+    return indices.map((frameIndex) => ({
+        frameIndex,
+        delay: settings.delay + (frameIndex === end ? settings.holdFinal : 0),
+    }));
+};
+
+export const getTimelineDuration = (timeline: TimelineFrame[]) =>
+    timeline.reduce((total, frame) => total + frame.delay, 0);
@@ -0,0 +1,116 @@
+import { HEADER_MARGIN, LayoutTemplate, Rect, STRIP_PADDING } from "./layouts";
+
+// Event branding set up by the booth operator: it applies to every strip,
+// whatever the layout. Stored in localStorage so it survives between events.
+
+export type HeaderPlacement = "top" | "bottom" | "none";
+export type DateFormat = "short" | "medium" | "long" | "full" | "none";
+
+export interface BrandingSettings {
+    title: string;
+    logo: string | null; // PNG data URL
+    dateFormat: DateFormat;
+    locale: string; // BCP 47 tag, empty = the browser's locale
+    footer: string; // e.g. a hashtag or venue; empty hides the footer
+    placement: HeaderPlacement;
+}
+
+export const DEFAULT_BRANDING: BrandingSettings = {
+    title: "PHOTOBOOTH",
+    logo: null,
+    dateFormat: "short",
+    locale: "",
+    footer: "",
+    placement: "top",
+};
+
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+    { value: "short", label: "Short (1/31/2025)" },
+    { value: "medium", label: "Medium (Jan 31, 2025)" },
+    { value: "long", label: "Long (January 31, 2025)" },
+    { value: "full", label: "Full (Friday, January 31, 2025)" },
+    { value: "none", label: "No date" },
+];
+
+export const FOOTER_HEIGHT = 20;
+
+const BRANDING_KEY = "photobooth.branding";
+
+export const isValidLocale = (locale: string) => {
+    if (!locale) return true;
+    try {
+        return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+    } catch {
+        return false;
+    }
+};
+
+export const formatBrandDate = (date: Date, branding: BrandingSettings) => {
+    if (branding.dateFormat === "none") return "";
+    const locale = branding.locale && isValidLocale(branding.locale) ? branding.locale : undefined;
+    return date.toLocaleDateString(locale, { dateStyle: branding.dateFormat });
+};
+
+/**
+ * Moves or drops the layout's header band to match the placement and adds a
+ * footer band when there is footer text. Layouts without a header keep none.
+ */
+export const applyBranding = (layout: LayoutTemplate, branding: BrandingSettings): LayoutTemplate => {
+    let { slots, header, height } = layout;
+    const top = Math.min(...slots.map((s) => s.y));
+
+    // Only a header that sits above every slot can be moved as a band
+    if (header && header.y + header.height <= top && branding.placement !== "top") {
+        const band = top - header.y;
+        slots = slots.map((s) => ({ ...s, y: s.y - band }));
+        if (branding.placement === "none") {
+            header = null;
+            height -= band;
+        } else {
+            const bottom = Math.max(...slots.map((s) => s.y + s.height));
+            header = { ...header, y: bottom + band - header.height };
+        }
+    }
+
+    let footer: Rect | null = null;
+    if (branding.footer.trim()) {
+        footer = { x: STRIP_PADDING, y: height - STRIP_PADDING + HEADER_MARGIN, width: layout.width - STRIP_PADDING * 2, height: FOOTER_HEIGHT };
+        height += HEADER_MARGIN + FOOTER_HEIGHT;
+    }
+
+    return { ...layout, slots, header, footer, height };
+};
+
+const readStoredBranding = (): BrandingSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(BRANDING_KEY) || "null");
+        return typeof stored === "object" && stored !== null ? { ...DEFAULT_BRANDING, ...stored } : DEFAULT_BRANDING;
+    } catch {
+        return DEFAULT_BRANDING;
+    }
+};
+
+// External store for useSyncExternalStore, like the custom layouts
+let branding: BrandingSettings | null = null;
+const brandingListeners = new Set<() => void>();
+
+export const subscribeBranding = (listener: () => void) => {
+    brandingListeners.add(listener);
+    return () => {
+        brandingListeners.delete(listener);
+    };
+};
+
+export const getBranding = (): BrandingSettings => {
+    if (typeof window === "undefined") return DEFAULT_BRANDING;
+    if (!branding) branding = readStoredBranding();
+    return branding;
+};
+
+export const getServerBranding = () => DEFAULT_BRANDING;
+
+export const saveBranding = (next: BrandingSettings) => {
+    localStorage.setItem(BRANDING_KEY, JSON.stringify(next));
+    branding = next;
+    brandingListeners.forEach((listener) => listener());
+};
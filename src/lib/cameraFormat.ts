@@ -0,0 +1,34 @@
+import { getCoverRect } from "./filters";
+import { LayoutTemplate, Rect } from "./layouts";
+
+// Webcams deliver a handful of shapes; ask for the one that wastes least of
+// the picture once every slot is cropped from it.
+const CAMERA_ASPECTS = [4 / 3, 16 / 9];
+const CAPTURE_HEIGHT = 1080; // ideal, the browser picks the nearest the camera supports
+
+export const getSlotAspect = (layout: LayoutTemplate, index: number) => {
+    const slot = layout.slots[Math.min(index, layout.slots.length - 1)];
+    return slot.width / slot.height;
+};
+
+// Share of the camera image left after cropping to the slot
+const keptArea = (cameraAspect: number, slotAspect: number) =>
+    slotAspect > cameraAspect ? cameraAspect / slotAspect : slotAspect / cameraAspect;
+
+export const getCameraAspect = (layout: LayoutTemplate) => {
+    const score = (aspect: number) => layout.slots.reduce((sum, slot) => sum + keptArea(aspect, slot.width / slot.height), 0);
+    return CAMERA_ASPECTS.reduce((best, aspect) => (score(aspect) > score(best) ? aspect : best));
+};
+
+export const getVideoConstraints = (layout: LayoutTemplate, deviceId: string | undefined): MediaTrackConstraints => {
+    const aspect = getCameraAspect(layout);
+    return {
+        deviceId,
+        aspectRatio: { ideal: aspect },
+        width: { ideal: Math.round(CAPTURE_HEIGHT * aspect) },
+        height: { ideal: CAPTURE_HEIGHT },
+    };
+};
+
+/** The centred part of a `width`×`height` frame that a slot of `aspect` keeps. */
+export const getCropRect = (width: number, height: number, aspect: number): Rect => getCoverRect(width, height, aspect, 1);
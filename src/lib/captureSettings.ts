@@ -0,0 +1,89 @@
+// How the camera paces a session. Stored in localStorage so an event keeps
+// its timing between guests.
+
+import { HandsFreeMode } from "./motionTrigger";
+
+export interface CaptureSettings {
+    countdown: number; // seconds before each shot
+    pause: number; // seconds between shots, for the next pose
+    getReady: number; // seconds before the first countdown starts
+    sound: boolean; // countdown beeps and a shutter sound
+    lookHere: boolean; // big "Look here!" cue on the last second
+    burstFps: number; // frames per second recorded for GIFs and videos
+    burstSize: number; // longest side of those frames in px
+    burstQuality: number; // their JPEG quality, 0-1
+    handsFree: HandsFreeMode; // start without touching the booth
+    sensitivity: number; // of the hands-free trigger, 1-5
+    stillSeconds: number; // how long a pose is held before a "still" start
+}
+
+export const DEFAULT_CAPTURE: CaptureSettings = {
+    countdown: 3,
+    pause: 2,
+    getReady: 0,
+    sound: true,
+    lookHere: true,
+    burstFps: 10,
+    burstSize: 640,
+    burstQuality: 0.8,
+    handsFree: "off",
+    sensitivity: 3,
+    stillSeconds: 3,
+};
+
+export const COUNTDOWN_OPTIONS = [1, 2, 3, 5, 10];
+export const PAUSE_OPTIONS = [0, 1, 2, 3, 5, 8];
+export const GET_READY_OPTIONS = [0, 2, 3, 5, 10];
+export const BURST_FPS_OPTIONS = [5, 10, 15];
+// Lower settings keep memory down on phones
+export const BURST_SIZE_OPTIONS = [320, 480, 640, 960];
+export const BURST_QUALITY_OPTIONS = [0.6, 0.7, 0.8, 0.9];
+export const HANDS_FREE_OPTIONS: { value: HandsFreeMode; label: string }[] = [
+    { value: "off", label: "Off" },
+    { value: "hotspot", label: "Wave in the corner" },
+    { value: "still", label: "Hold a pose" },
+];
+export const SENSITIVITY_OPTIONS = [
+    { value: 1, label: "Lowest" },
+    { value: 2, label: "Low" },
+    { value: 3, label: "Medium" },
+    { value: 4, label: "High" },
+    { value: 5, label: "Highest" },
+];
+export const STILL_SECONDS_OPTIONS = [2, 3, 5];
+
+const CAPTURE_KEY = "photobooth.capture";
+
+const readStoredCapture = (): CaptureSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(CAPTURE_KEY) || "null");
+        return typeof stored === "object" && stored !== null ? { ...DEFAULT_CAPTURE, ...stored } : DEFAULT_CAPTURE;
+    } catch {
+        return DEFAULT_CAPTURE;
+    }
+};
+
+// External store for useSyncExternalStore, like the kiosk settings
+let capture: CaptureSettings | null = null;
+const captureListeners = new Set<() => void>();
+
+export const subscribeCapture = (listener: () => void) => {
+    captureListeners.add(listener);
+    return () => {
+        captureListeners.delete(listener);
+    };
+};
+
+export const getCapture = (): CaptureSettings => {
+    if (typeof window === "undefined") return DEFAULT_CAPTURE;
+    if (!capture) capture = readStoredCapture();
+    return capture;
+};
+
+export const getServerCapture = () => DEFAULT_CAPTURE;
+
+export const saveCapture = (next: CaptureSettings) => {
+    localStorage.setItem(CAPTURE_KEY, JSON.stringify(next));
+    capture = next;
+    captureListeners.forEach((listener) => listener());
+};
@@ -0,0 +1,218 @@
+// Green-screen replacement for the camera. The key is measured in the
+// chroma (Cb/Cr) plane, so shadows and creases on the backdrop key out as well
+// as the lit parts. Applied to the preview and to every captured frame, so
+// stills, GIFs and videos all carry the new background.
+
+import { BACKGROUNDS, openDb, promisify, transactionDone } from "./db";
+import { getCoverRect } from "./filters";
+
+export interface ChromaKeySettings {
+    enabled: boolean;
+    color: string; // hex colour of the backdrop
+    tolerance: number; // 0-100, how far from `color` still counts as backdrop
+    spill: number; // 0-100, how much backdrop tint to take off edges and skin
+    backgroundId: string; // a bundled background, or the uploaded one's id
+    customBackgroundId: string | null; // the uploaded background, kept while a bundled one is in use
+}
+
+export const BUNDLED_BACKGROUNDS = [
+    { id: "party", name: "Party", src: "/backgrounds/party.svg" },
+    { id: "sunset", name: "Sunset", src: "/backgrounds/sunset.svg" },
+    { id: "night-sky", name: "Night Sky", src: "/backgrounds/night-sky.svg" },
+];
+
+export const KEY_COLORS = [
+    { name: "Green", color: "#00b140" },
+    { name: "Blue", color: "#0047bb" },
+];
+
+export const DEFAULT_CHROMA_KEY: ChromaKeySettings = {
+    enabled: false,
+    color: KEY_COLORS[0].color,
+    tolerance: 30,
+    spill: 50,
+    backgroundId: BUNDLED_BACKGROUNDS[0].id,
+    customBackgroundId: null,
+};
+
+const CHROMA_KEY_KEY = "photobooth.chromaKey";
+
+const EDGE_SOFTNESS = 20; // chroma distance over which the edge fades from backdrop to subject
+const SPILL_MARGIN = 40; // chroma distance past the edge over which spill removal fades out
+
+const parseHex = (hex: string) => {
+    const value = parseInt(hex.replace("#", ""), 16) || 0;
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Chroma of an RGB colour, BT.601
+const toCb = (r: number, g: number, b: number) => -0.168736 * r - 0.331264 * g + 0.5 * b;
+const toCr = (r: number, g: number, b: number) => 0.5 * r - 0.418688 * g - 0.081312 * b;
+
+/**
+ * A function that keys `settings.color` out of a frame in place and puts the
+ * background behind it. Backgrounds are scaled like object-fit: cover, once
+ * per frame size.
+ */
+export const createChromaKeyer = (settings: ChromaKeySettings, background: ImageBitmap) => {
+    const [kr, kg, kb] = parseHex(settings.color);
+    const keyCb = toCb(kr, kg, kb);
+    const keyCr = toCr(kr, kg, kb);
+    const inner = settings.tolerance * 1.5;
+    const outer = inner + EDGE_SOFTNESS;
+    const spill = settings.spill / 100;
+    // Only colours near the backdrop carry its spill; the rest of the subject is left alone
+    const spillEnd = spill > 0 ? outer + SPILL_MARGIN : outer;
+    // Spill is the backdrop's main channel showing through; it's capped at the other two
+    const dominant = kg >= kr && kg >= kb ? 1 : kb >= kr ? 2 : 0;
+    const others = [0, 1, 2].filter((c) => c !== dominant);
+
+    const backgrounds = new Map<string, Uint8ClampedArray>();
+    const getBackground = (width: number, height: number) => {
+        const key = `${width}x${height}`;
+        let pixels = backgrounds.get(key);
+        if (!pixels) {
+            const canvas = document.createElement("canvas");
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext("2d");
+            if (!ctx) throw new Error("Canvas 2D context unavailable");
+            const crop = getCoverRect(background.width, background.height, width, height);
+            ctx.drawImage(background, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+            pixels = ctx.getImageData(0, 0, width, height).data;
+            backgrounds.set(key, pixels);
+        }
+        return pixels;
+    };
+
+    return (pixels: ImageData) => {
+        const { data } = pixels;
+        const bg = getBackground(pixels.width, pixels.height);
+        for (let i = 0; i < data.length; i += 4) {
+            const r = data[i];
+            const g = data[i + 1];
+            const b = data[i + 2];
+            const distance = Math.hypot(toCb(r, g, b) - keyCb, toCr(r, g, b) - keyCr);
+            if (distance >= spillEnd) continue;
+
+            const alpha = distance <= inner ? 0 : distance >= outer ? 1 : (distance - inner) / (outer - inner);
+            if (spill > 0) {
+                const strength = distance <= outer ? spill : (spill * (spillEnd - distance)) / SPILL_MARGIN;
+                const limit = Math.max(data[i + others[0]], data[i + others[1]]);
+                const value = data[i + dominant];
+                if (value > limit) data[i + dominant] = value - (value - limit) * strength;
+            }
+            if (alpha < 1) {
+                data[i] = data[i] * alpha + bg[i] * (1 - alpha);
+                data[i + 1] = data[i + 1] * alpha + bg[i + 1] * (1 - alpha);
+                data[i + 2] = data[i + 2] * alpha + bg[i + 2] * (1 - alpha);
+            }
+        }
+    };
+};
+
+export type ChromaKeyer = ReturnType<typeof createChromaKeyer>;
+
+// --- Settings ---
+
+const readStoredChromaKey = (): ChromaKeySettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(CHROMA_KEY_KEY) || "null");
+        return typeof stored === "object" && stored !== null ? { ...DEFAULT_CHROMA_KEY, ...stored } : DEFAULT_CHROMA_KEY;
+    } catch {
+        return DEFAULT_CHROMA_KEY;
+    }
+};
+
+// External store for useSyncExternalStore, like the capture settings
+let chromaKey: ChromaKeySettings | null = null;
+const chromaKeyListeners = new Set<() => void>();
+
+export const subscribeChromaKey = (listener: () => void) => {
+    chromaKeyListeners.add(listener);
+    return () => {
+        chromaKeyListeners.delete(listener);
+    };
+};
+
+export const getChromaKey = (): ChromaKeySettings => {
+    if (typeof window === "undefined") return DEFAULT_CHROMA_KEY;
+    if (!chromaKey) chromaKey = readStoredChromaKey();
+    return chromaKey;
+};
+
+export const getServerChromaKey = () => DEFAULT_CHROMA_KEY;
+
+export const saveChromaKey = (next: ChromaKeySettings) => {
+    localStorage.setItem(CHROMA_KEY_KEY, JSON.stringify(next));
+    chromaKey = next;
+    chromaKeyListeners.forEach((listener) => listener());
+};
+
+// --- Backgrounds ---
+
+// Uploaded backgrounds are too big for localStorage; one is kept in IndexedDB
+const backgroundCache = new Map<string, Promise<ImageBitmap | null>>();
+
+const decodeImage = async (src: string): Promise<ImageBitmap> => {
+    // Through an <img> rather than fetch + createImageBitmap, which can't decode SVG
+    const img = new Image();
+    img.src = src;
+    await img.decode();
+    return createImageBitmap(img);
+};
+
+/**
+ * Stores a user-selected image as the custom background, replacing the last
+ * one. Returns its id; each upload gets a new one so the camera reloads it.
+ */
+export const importBackgroundFile = async (file: File): Promise<string> => {
+    if (!file.type.startsWith("image/")) throw new Error(`${file.name} is not an image`);
+    const url = URL.createObjectURL(file);
+    try {
+        // Decode first so a broken file never replaces a working background
+        const bitmap = await decodeImage(url).catch(() => {
+            throw new Error(`${file.name} could not be read`);
+        });
+        const id = crypto.randomUUID();
+        const db = await openDb();
+        const tx = db.transaction(BACKGROUNDS, "readwrite");
+        const store = tx.objectStore(BACKGROUNDS);
+        store.clear();
+        store.put({ id, name: file.name, blob: file });
+        await transactionDone(tx);
+        backgroundCache.set(id, Promise.resolve(bitmap));
+        return id;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+const loadCustomBackground = async (id: string): Promise<ImageBitmap | null> => {
+    const db = await openDb();
+    const record = (await promisify(db.transaction(BACKGROUNDS).objectStore(BACKGROUNDS).get(id))) as
+        | { blob: Blob }
+        | undefined;
+    if (!record) return null;
+    const url = URL.createObjectURL(record.blob);
+    try {
+        return await decodeImage(url);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+/** Decoded background for `id`; null if there's no custom background yet or it failed to load. */
+export const loadBackground = (id: string): Promise<ImageBitmap | null> => {
+    let cached = backgroundCache.get(id);
+    if (!cached) {
+        const bundled = BUNDLED_BACKGROUNDS.find((b) => b.id === id);
+        cached = (bundled ? decodeImage(bundled.src) : loadCustomBackground(id)).catch((err) => {
+            console.error("Failed to load background:", err);
+            backgroundCache.delete(id);
+            return null;
+        });
+        backgroundCache.set(id, cached);
+    }
+    return cached;
+};
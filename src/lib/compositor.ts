@@ -0,0 +1,377 @@
+import { loadLut } from "./filterPresets";
+import { DEFAULT_FILTER, FilterSettings, Lut, renderFilteredImage } from "./filters";
+import { Burst, decodeFrame } from "./frames";
+import { LayoutTemplate, Rect, SlotTemplate } from "./layouts";
+
+export const STICKER_BOX = 80;
+
+// Mirrors --font-hand in globals.css (canvas can't read CSS variables)
+const HAND_FONT = "'Gaegu', cursive";
+export const LOGO_GAP = 6; // space between the header logo and the date
+
+export interface StripSticker {
+    id: number;
+    content: string; // emoji, or the sticker name for image stickers
+    image?: string; // image URL or data URL; drawn instead of `content`
+    x: number; // from the strip's top-left corner
+    y: number;
+    scale: number;
+    rotation?: number; // degrees, clockwise about the sticker's centre
+    flipped?: boolean; // mirrored horizontally
+}
+
+export type TextEffect = "none" | "outline" | "shadow";
+export type TextAlign = "left" | "center" | "right";
+
+export interface StripText {
+    id: number;
+    text: string; // may span several lines
+    x: number; // top-left of the text box, from the strip's top-left corner
+    y: number;
+    width: number; // box the alignment is relative to; text isn't wrapped
+    font: string; // TEXT_FONTS id
+    size: number; // px
+    color: string;
+    effect: TextEffect;
+    effectColor: string;
+    align: TextAlign;
+}
+
+export const TEXT_FONTS = [
+    { id: "hand", label: "Handwritten", css: HAND_FONT },
+    { id: "rounded", label: "Rounded", css: "'Nunito', sans-serif" },
+    { id: "serif", label: "Serif", css: "Georgia, 'Times New Roman', serif" },
+    { id: "typewriter", label: "Typewriter", css: "'Courier New', monospace" },
+    { id: "poster", label: "Poster", css: "Impact, 'Arial Black', sans-serif" },
+];
+
+// Shared with the preview so the DOM and canvas lay text out the same way
+export const TEXT_WEIGHT = 700;
+export const TEXT_LINE_HEIGHT = 1.2;
+export const TEXT_OUTLINE_RATIO = 0.16; // stroke width per px of font size; half of it shows outside the glyph
+export const TEXT_SHADOW = { offsetY: 2, blur: 4 };
+
+export const getTextFont = (id: string) => TEXT_FONTS.find((f) => f.id === id) ?? TEXT_FONTS[0];
+
+export type StrokeMode = "pen" | "highlighter" | "neon" | "eraser";
+
+export interface StripStroke {
+    id: number;
+    mode: StrokeMode;
+    color: string;
+    size: number; // line width in strip px
+    points: number[]; // flat x, y pairs in strip coordinates
+}
+
+export interface StripModel {
+    photos: Burst[]; // One per layout slot
+    layout: LayoutTemplate;
+    filters: FilterSettings[]; // One per layout slot
+    borderColor: string;
+    header: { date: string; brand: string };
+    logo: string | null; // Event logo, drawn at the start of the header
+    footer: string; // Drawn in layout.footer when the branding adds one
+    stickers: StripSticker[];
+    texts: StripText[];
+    strokes: StripStroke[];
+}
+
+// Decoded stickers and logos are shared between renders; photo frames have their own cache (see frames.ts)
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    let cached = imageCache.get(src);
+    if (!cached) {
+        cached = new Promise((resolve, reject) => {
+            const img = new Image();
+            img.onload = () => resolve(img);
+            img.onerror = () => reject(new Error("Failed to load frame"));
+            img.src = src;
+        });
+        // Drop failed entries so a later render can retry
+        cached.catch(() => imageCache.delete(src));
+        imageCache.set(src, cached);
+    }
+    return cached;
+};
+
+export const clearImageCache = () => imageCache.clear();
+
+interface SlotFilter {
+    settings: FilterSettings;
+    lut: Lut | null;
+    scale: number; // output pixels per layout unit, so the filter runs at full resolution
+}
+
+// Each distinct LUT is loaded once per render, however many slots use it
+const loadSlotLuts = async (filters: FilterSettings[]) => {
+    const ids = [...new Set(filters.map((f) => f.lutId).filter((id): id is string => !!id))];
+    const luts = await Promise.all(ids.map(loadLut));
+    return new Map(ids.map((id, i) => [id, luts[i]]));
+};
+
+const drawSlot = (ctx: CanvasRenderingContext2D, img: ImageBitmap | null, slot: SlotTemplate, filter: SlotFilter) => {
+    ctx.save();
+    if (slot.rotation) {
+        const cx = slot.x + slot.width / 2;
+        const cy = slot.y + slot.height / 2;
+        ctx.translate(cx, cy);
+        ctx.rotate((slot.rotation * Math.PI) / 180);
+        ctx.translate(-cx, -cy);
+    }
+
+    ctx.fillStyle = "#eee";
+    ctx.fillRect(slot.x, slot.y, slot.width, slot.height);
+
+    if (img) {
+        const filtered = renderFilteredImage(img, slot.width * filter.scale, slot.height * filter.scale, filter.settings, filter.lut);
+        ctx.drawImage(filtered, slot.x, slot.y, slot.width, slot.height);
+    }
+
+    // Glossy overlay, same as .photoFrame::after
+    const gloss = ctx.createLinearGradient(slot.x, slot.y, slot.x + slot.width, slot.y + slot.height);
+    gloss.addColorStop(0, "rgba(255, 255, 255, 0.2)");
+    gloss.addColorStop(0.5, "rgba(255, 255, 255, 0)");
+    gloss.addColorStop(1, "rgba(0, 0, 0, 0.05)");
+    ctx.fillStyle = gloss;
+    ctx.fillRect(slot.x, slot.y, slot.width, slot.height);
+    ctx.restore();
+};
+
+const drawHeader = (ctx: CanvasRenderingContext2D, rect: Rect, header: StripModel["header"], logo: HTMLImageElement | null) => {
+    ctx.save();
+    ctx.globalAlpha = 0.8;
+    ctx.fillStyle = "#333";
+    ctx.textBaseline = "middle";
+    const midY = rect.y + rect.height / 2;
+
+    // Logo fits the header height, same as .logo in the editor
+    let dateX = rect.x + 4;
+    if (logo) {
+        const width = (logo.naturalWidth / logo.naturalHeight) * rect.height;
+        ctx.drawImage(logo, dateX, rect.y, width, rect.height);
+        dateX += width + LOGO_GAP;
+    }
+
+    ctx.font = `700 16px ${HAND_FONT}`;
+    ctx.letterSpacing = "1px";
+    ctx.textAlign = "left";
+    ctx.fillText(header.date, dateX, midY);
+
+    ctx.font = `700 19.2px ${HAND_FONT}`;
+    ctx.letterSpacing = "2px";
+    ctx.textAlign = "right";
+    ctx.fillText(header.brand, rect.x + rect.width - 4, midY);
+    ctx.restore();
+};
+
+const drawFooter = (ctx: CanvasRenderingContext2D, rect: Rect, text: string) => {
+    ctx.save();
+    ctx.globalAlpha = 0.8;
+    ctx.fillStyle = "#333";
+    ctx.textBaseline = "middle";
+    ctx.textAlign = "center";
+    ctx.font = `700 16px ${HAND_FONT}`;
+    ctx.letterSpacing = "1px";
+    ctx.fillText(text, rect.x + rect.width / 2, rect.y + rect.height / 2, rect.width);
+    ctx.restore();
+};
+
+const drawSticker = (ctx: CanvasRenderingContext2D, sticker: StripSticker, img: HTMLImageElement | null, scale: number) => {
+    if (sticker.image && !img) return; // Image failed to load
+    ctx.save();
+    const cx = sticker.x + STICKER_BOX / 2;
+    const cy = sticker.y + STICKER_BOX / 2;
+    const angle = ((sticker.rotation ?? 0) * Math.PI) / 180;
+    ctx.translate(cx, cy);
+    ctx.rotate(angle);
+    ctx.scale(sticker.scale * (sticker.flipped ? -1 : 1), sticker.scale);
+    // Shadow offsets ignore the transform, so scale and rotate them by hand
+    // (the preview's drop-shadow turns with the sticker)
+    const shadow = 4 * scale * sticker.scale;
+    ctx.shadowColor = "rgba(0, 0, 0, 0.2)";
+    ctx.shadowOffsetX = -Math.sin(angle) * shadow;
+    ctx.shadowOffsetY = Math.cos(angle) * shadow;
+    ctx.shadowBlur = shadow;
+    if (img) {
+        // object-fit: contain within the sticker box
+        const fit = Math.min(STICKER_BOX / img.naturalWidth, STICKER_BOX / img.naturalHeight);
+        const w = img.naturalWidth * fit;
+        const h = img.naturalHeight * fit;
+        ctx.drawImage(img, -w / 2, -h / 2, w, h);
+    } else {
+        ctx.font = "64px sans-serif";
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillText(sticker.content, 0, 0);
+    }
+    ctx.restore();
+};
+
+const drawText = (ctx: CanvasRenderingContext2D, layer: StripText, scale: number) => {
+    ctx.save();
+    ctx.font = `${TEXT_WEIGHT} ${layer.size}px ${getTextFont(layer.font).css}`;
+    ctx.textAlign = layer.align;
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = layer.color;
+
+    const lineHeight = layer.size * TEXT_LINE_HEIGHT;
+    const x = layer.align === "left" ? layer.x : layer.align === "center" ? layer.x + layer.width / 2 : layer.x + layer.width;
+
+    if (layer.effect === "shadow") {
+        ctx.shadowColor = layer.effectColor;
+        ctx.shadowOffsetY = TEXT_SHADOW.offsetY * scale;
+        ctx.shadowBlur = TEXT_SHADOW.blur * scale;
+    }
+
+    layer.text.split("\n").forEach((line, i) => {
+        const y = layer.y + lineHeight * (i + 0.5);
+        if (layer.effect === "outline") {
+            // Stroke first so the fill sits on top, like paint-order: stroke fill
+            ctx.lineWidth = layer.size * TEXT_OUTLINE_RATIO;
+            ctx.lineJoin = "round";
+            ctx.strokeStyle = layer.effectColor;
+            ctx.strokeText(line, x, y);
+        }
+        ctx.fillText(line, x, y);
+    });
+    ctx.restore();
+};
+
+const traceStroke = (ctx: CanvasRenderingContext2D, points: number[]) => {
+    ctx.beginPath();
+    ctx.moveTo(points[0], points[1]);
+    if (points.length === 2) {
+        ctx.lineTo(points[0] + 0.01, points[1]); // A single tap still leaves a dot
+    }
+    for (let i = 2; i < points.length; i += 2) {
+        ctx.lineTo(points[i], points[i + 1]);
+    }
+};
+
+/**
+ * Draws doodle strokes onto `ctx`, which must already be scaled to strip
+ * units. The eraser removes ink from whatever is on `ctx`, so strokes should
+ * go on their own layer. `scale` is the device pixels per strip unit, used
+ * for the glow, which ignores the transform.
+ */
+export const drawStrokes = (ctx: CanvasRenderingContext2D, strokes: StripStroke[], scale: number) => {
+    strokes.forEach((stroke) => {
+        if (stroke.points.length < 2) return;
+        ctx.save();
+        ctx.lineCap = "round";
+        ctx.lineJoin = "round";
+        ctx.lineWidth = stroke.size;
+        ctx.strokeStyle = stroke.color;
+        traceStroke(ctx, stroke.points);
+
+        if (stroke.mode === "eraser") {
+            ctx.globalCompositeOperation = "destination-out";
+            ctx.strokeStyle = "#000";
+            ctx.stroke();
+        } else if (stroke.mode === "highlighter") {
+            ctx.globalAlpha = 0.4;
+            ctx.stroke();
+        } else if (stroke.mode === "neon") {
+            // Coloured glow with a light core
+            ctx.shadowColor = stroke.color;
+            ctx.shadowBlur = stroke.size * 2 * scale;
+            ctx.stroke();
+            ctx.stroke();
+            ctx.shadowBlur = 0;
+            ctx.lineWidth = stroke.size * 0.4;
+            ctx.strokeStyle = "rgba(255, 255, 255, 0.85)";
+            ctx.stroke();
+        } else {
+            ctx.stroke();
+        }
+        ctx.restore();
+    });
+};
+
+const drawDoodles = (ctx: CanvasRenderingContext2D, strokes: StripStroke[], width: number, height: number, scale: number) => {
+    const layer = document.createElement("canvas");
+    layer.width = ctx.canvas.width;
+    layer.height = ctx.canvas.height;
+    const layerCtx = layer.getContext("2d");
+    if (!layerCtx) return;
+    layerCtx.scale(scale, scale);
+    drawStrokes(layerCtx, strokes, scale);
+    ctx.drawImage(layer, 0, 0, width, height);
+};
+
+const loadedFonts = new Map<string, Promise<unknown>>();
+
+// Canvas text silently falls back to a default font if the web font isn't loaded yet
+const ensureFonts = (texts: StripText[]) => {
+    const specs = [
+        `700 16px ${HAND_FONT}`,
+        `700 19.2px ${HAND_FONT}`,
+        ...texts.map((t) => `${TEXT_WEIGHT} ${t.size}px ${getTextFont(t.font).css}`),
+    ];
+    return Promise.all(specs.map((spec) => {
+        let loaded = loadedFonts.get(spec);
+        if (!loaded) {
+            loaded = document.fonts.load(spec).catch(() => undefined);
+            loadedFonts.set(spec, loaded);
+        }
+        return loaded;
+    }));
+};
+
+/**
+ * Draws the strip straight onto a canvas from the data model.
+ * `frameIndex` picks the burst frame for every slot (clamped per burst);
+ * null means the last frame, i.e. the actual snap.
+ */
+export const renderStrip = async (
+    model: StripModel,
+    { frameIndex = null, scale = 2 }: { frameIndex?: number | null; scale?: number } = {}
+): Promise<HTMLCanvasElement> => {
+    const { layout } = model;
+
+    const [images, luts, stickerImages, logo] = await Promise.all([
+        Promise.all(model.photos.map((burst) => {
+            if (burst.length === 0) return Promise.resolve(null);
+            const index = frameIndex === null ? burst.length - 1 : Math.min(frameIndex, burst.length - 1);
+            return decodeFrame(burst[index]).catch(() => null);
+        })),
+        loadSlotLuts(model.filters),
+        Promise.all(model.stickers.map((s) => (s.image ? loadImage(s.image).catch(() => null) : Promise.resolve(null)))),
+        model.logo && layout.header ? loadImage(model.logo).catch(() => null) : Promise.resolve(null),
+        ensureFonts(model.texts),
+    ]);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(layout.width * scale);
+    canvas.height = Math.round(layout.height * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+    ctx.scale(scale, scale);
+    ctx.fillStyle = model.borderColor;
+    ctx.fillRect(0, 0, layout.width, layout.height);
+
+    if (layout.header) {
+        drawHeader(ctx, layout.header, model.header, logo);
+    }
+    if (layout.footer && model.footer) {
+        drawFooter(ctx, layout.footer, model.footer);
+    }
+
+    layout.slots.forEach((slot, i) => {
+        const settings = model.filters[i] ?? DEFAULT_FILTER;
+        const lut = settings.lutId ? luts.get(settings.lutId) ?? null : null;
+        drawSlot(ctx, images[i] ?? null, slot, { settings, lut, scale });
+    });
+
+    model.stickers.forEach((s, i) => drawSticker(ctx, s, stickerImages[i], scale));
+    model.texts.forEach((t) => drawText(ctx, t, scale));
+
+    // Doodles sit on top of everything, on their own layer so the eraser only removes ink
+    if (model.strokes.length > 0) {
+        drawDoodles(ctx, model.strokes, layout.width, layout.height, scale);
+    }
+
+    return canvas;
+};
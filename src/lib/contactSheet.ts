@@ -0,0 +1,58 @@
+import { getBranding } from "./branding";
+import { renderStrip } from "./compositor";
+import { releaseBursts } from "./frames";
+import { buildContactSheetPdf, canvasToPdfImage, ContactSheetEntry, PdfImage } from "./pdf";
+import { loadBursts, SessionRecord } from "./sessionStore";
+import { buildStripModel, createEditorState } from "./stripModel";
+
+// Strips come out about 1.3" wide on the sheet, so layout scale gives close to 300 DPI
+const CONTACT_SCALE = 1;
+
+// Falls back to the gallery thumbnail when the photos are gone
+const thumbnailImage = async (thumbnail: Blob): Promise<PdfImage> => {
+    const bitmap = await createImageBitmap(thumbnail);
+    const image = { data: new Uint8Array(await thumbnail.arrayBuffer()), width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return image;
+};
+
+const renderSessionImage = async (session: SessionRecord): Promise<PdfImage | null> => {
+    const bursts = session.layout ? await loadBursts(session.id) : [];
+    try {
+        if (session.layout && bursts.length > 0) {
+            const state = { ...createEditorState(session.filter, getBranding()), ...session.editor };
+            const canvas = await renderStrip(buildStripModel(bursts, session.layout, state), { scale: CONTACT_SCALE });
+            return await canvasToPdfImage(canvas, 0.85);
+        }
+    } finally {
+        releaseBursts(bursts);
+    }
+    return session.thumbnail ? thumbnailImage(session.thumbnail) : null;
+};
+
+/**
+ * Renders each session's strip and lays them out on contact sheet pages.
+ * Strips are rendered one at a time to keep memory down on long events.
+ */
+export const createContactSheet = async (
+    sessions: SessionRecord[],
+    onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+    const entries: ContactSheetEntry[] = [];
+    for (const [i, session] of sessions.entries()) {
+        try {
+            const image = await renderSessionImage(session);
+            if (image) {
+                entries.push({
+                    image,
+                    caption: [new Date(session.createdAt).toLocaleString(), session.layout?.name ?? ""],
+                });
+            }
+        } catch (err) {
+            console.error(`Failed to render session ${session.id}`, err);
+        }
+        onProgress?.(i + 1, sessions.length);
+    }
+    if (entries.length === 0) throw new Error("None of these strips could be rendered");
+    return buildContactSheetPdf(entries, getBranding().title);
+};
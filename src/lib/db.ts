@@ -0,0 +1,54 @@
+// Shared IndexedDB connection for everything the booth keeps in the browser.
+
+const DB_NAME = "photobooth";
+const DB_VERSION = 3;
+
+export const SESSIONS = "sessions";
+export const BURSTS = "bursts";
+export const LUTS = "luts"; // v2
+export const BACKGROUNDS = "backgrounds"; // v3
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const req = indexedDB.open(DB_NAME, DB_VERSION);
+            req.onupgradeneeded = () => {
+                const db = req.result;
+                if (!db.objectStoreNames.contains(SESSIONS)) {
+                    db.createObjectStore(SESSIONS, { keyPath: "id" });
+                }
+                if (!db.objectStoreNames.contains(BURSTS)) {
+                    db.createObjectStore(BURSTS, { keyPath: "sessionId" });
+                }
+                if (!db.objectStoreNames.contains(LUTS)) {
+                    db.createObjectStore(LUTS, { keyPath: "id" });
+                }
+                if (!db.objectStoreNames.contains(BACKGROUNDS)) {
+                    db.createObjectStore(BACKGROUNDS, { keyPath: "id" });
+                }
+            };
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+        });
+        // Allow a retry if opening failed (e.g. private mode)
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+};
+
+export const promisify = <T>(req: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
@@ -0,0 +1,92 @@
+import { LUTS, openDb, promisify, transactionDone } from "./db";
+import { FilterPreset, FilterSettings, Lut, parseCubeLut, resolveFilter } from "./filters";
+
+// User-saved filter presets live in localStorage; the LUTs they reference are
+// too big for that and go to IndexedDB.
+
+const PRESETS_KEY = "photobooth.filterPresets";
+
+const readStoredPresets = (): FilterPreset[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) || "[]");
+        if (!Array.isArray(stored)) return [];
+        return stored
+            .filter((item) => typeof item?.id === "string" && typeof item?.name === "string")
+            .map((item) => ({ ...resolveFilter(item), id: item.id }));
+    } catch {
+        return [];
+    }
+};
+
+// Same external store shape as the custom layouts, for useSyncExternalStore
+let savedPresets: FilterPreset[] | null = null;
+const presetListeners = new Set<() => void>();
+const NO_PRESETS: FilterPreset[] = [];
+
+export const subscribeFilterPresets = (listener: () => void) => {
+    presetListeners.add(listener);
+    return () => {
+        presetListeners.delete(listener);
+    };
+};
+
+export const getFilterPresets = (): FilterPreset[] => {
+    if (typeof window === "undefined") return NO_PRESETS;
+    if (!savedPresets) savedPresets = readStoredPresets();
+    return savedPresets;
+};
+
+export const getServerFilterPresets = () => NO_PRESETS;
+
+export const saveFilterPresets = (presets: FilterPreset[]) => {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+    savedPresets = presets;
+    presetListeners.forEach((listener) => listener());
+};
+
+/** Saves the settings under `name`, replacing a saved preset with the same name. */
+export const addFilterPreset = (name: string, settings: FilterSettings): FilterPreset => {
+    const presets = getFilterPresets();
+    const existing = presets.find((p) => p.name === name);
+    const preset: FilterPreset = { ...settings, name, id: existing?.id ?? crypto.randomUUID() };
+    saveFilterPresets(existing ? presets.map((p) => (p.id === existing.id ? preset : p)) : [...presets, preset]);
+    return preset;
+};
+
+export const removeFilterPreset = (id: string) => {
+    saveFilterPresets(getFilterPresets().filter((p) => p.id !== id));
+};
+
+// --- LUTs ---
+
+const lutCache = new Map<string, Promise<Lut | null>>();
+
+/** Parses a user-selected .cube file and stores it. */
+export const importLutFile = async (file: File): Promise<Lut> => {
+    const parsed = parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, ""));
+    const lut: Lut = { ...parsed, id: crypto.randomUUID() };
+    const db = await openDb();
+    const tx = db.transaction(LUTS, "readwrite");
+    tx.objectStore(LUTS).put(lut);
+    await transactionDone(tx);
+    lutCache.set(lut.id, Promise.resolve(lut));
+    return lut;
+};
+
+/** Loads a stored LUT; null if it was never stored or IndexedDB is unavailable. */
+export const loadLut = (id: string | null): Promise<Lut | null> => {
+    if (!id) return Promise.resolve(null);
+    let cached = lutCache.get(id);
+    if (!cached) {
+        cached = openDb()
+            .then((db) => promisify(db.transaction(LUTS).objectStore(LUTS).get(id)))
+            .then((record) => (record as Lut | undefined) ?? null)
+            .catch((err) => {
+                console.error("Failed to load LUT:", err);
+                lutCache.delete(id);
+                return null;
+            });
+        lutCache.set(id, cached);
+    }
+    return cached;
+};
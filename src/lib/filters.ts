@@ -0,0 +1,266 @@
+import { Rect } from "./layouts";
+
+// Pixel-based filter engine. The live camera preview, the editor preview and
+// every export run the same applyFilter over ImageData, so what guests see is
+// what ends up in the files.
+
+export interface FilterSettings {
+    name: string; // preset name, shown in the gallery
+    exposure: number; // stops, -2..2
+    contrast: number; // -1..1
+    saturation: number; // -1 (greyscale)..1
+    temperature: number; // -1 (cool)..1 (warm)
+    grain: number; // 0..1
+    vignette: number; // 0..1
+    lutId: string | null; // .cube LUT stored in IndexedDB, applied after the adjustments
+}
+
+export interface FilterPreset extends FilterSettings {
+    id: string;
+}
+
+export type FilterParam = "exposure" | "contrast" | "saturation" | "temperature" | "grain" | "vignette";
+
+export const FILTER_PARAMS: { key: FilterParam; label: string; min: number; max: number; step: number }[] = [
+    { key: "exposure", label: "Exposure", min: -2, max: 2, step: 0.05 },
+    { key: "contrast", label: "Contrast", min: -1, max: 1, step: 0.05 },
+    { key: "saturation", label: "Saturation", min: -1, max: 1, step: 0.05 },
+    { key: "temperature", label: "Warmth", min: -1, max: 1, step: 0.05 },
+    { key: "grain", label: "Grain", min: 0, max: 1, step: 0.05 },
+    { key: "vignette", label: "Vignette", min: 0, max: 1, step: 0.05 },
+];
+
+const NEUTRAL = { exposure: 0, contrast: 0, saturation: 0, temperature: 0, grain: 0, vignette: 0, lutId: null };
+
+export const BUILT_IN_PRESETS: FilterPreset[] = [
+    { id: "normal", name: "Normal", ...NEUTRAL },
+    { id: "bw", name: "B&W", ...NEUTRAL, saturation: -1, contrast: 0.2 },
+    { id: "soft", name: "Soft", ...NEUTRAL, exposure: 0.15, contrast: -0.1, saturation: -0.2, vignette: 0.15 },
+    { id: "vintage", name: "Vintage", ...NEUTRAL, contrast: 0.1, saturation: -0.25, temperature: 0.4, grain: 0.2, vignette: 0.35 },
+];
+
+export const presetToSettings = (preset: FilterPreset): FilterSettings => {
+    const { name, exposure, contrast, saturation, temperature, grain, vignette, lutId } = preset;
+    return { name, exposure, contrast, saturation, temperature, grain, vignette, lutId };
+};
+
+export const DEFAULT_FILTER: FilterSettings = presetToSettings(BUILT_IN_PRESETS[0]);
+
+export const isNeutralFilter = (f: FilterSettings) =>
+    !f.lutId && f.exposure === 0 && f.contrast === 0 && f.saturation === 0 &&
+    f.temperature === 0 && f.grain === 0 && f.vignette === 0;
+
+/** Accepts saved filter values, including the old preset names ("bw", "vintage", ...). */
+export const resolveFilter = (value: unknown): FilterSettings => {
+    if (typeof value === "string") {
+        const preset = BUILT_IN_PRESETS.find((p) => p.id === value);
+        return preset ? presetToSettings(preset) : DEFAULT_FILTER;
+    }
+    if (typeof value === "object" && value !== null) {
+        return { ...DEFAULT_FILTER, ...(value as Partial<FilterSettings>) };
+    }
+    return DEFAULT_FILTER;
+};
+
+// --- 3D LUTs ---
+
+export interface Lut {
+    id: string;
+    name: string;
+    size: number;
+    data: Float32Array; // size^3 RGB triples, red changing fastest
+    // Input range the table covers; missing on LUTs stored before it was kept, meaning 0..1
+    domainMin?: number[];
+    domainMax?: number[];
+}
+
+/** Parses an Adobe/Resolve .cube file. Throws if the file isn't a usable 3D LUT. */
+const parseDomain = (parts: string[], keyword: string) => {
+    const domain = parts.slice(1).map(Number);
+    if (domain.length !== 3 || !domain.every(Number.isFinite)) {
+        throw new Error(`${keyword} needs three numbers`);
+    }
+    return domain;
+};
+
+export const parseCubeLut = (text: string, name: string): Omit<Lut, "id"> => {
+    let size = 0;
+    let domainMin = [0, 0, 0];
+    let domainMax = [1, 1, 1];
+    const values: number[] = [];
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith("#")) continue;
+        const parts = line.split(/\s+/);
+        const keyword = parts[0].toUpperCase();
+
+        if (keyword === "LUT_3D_SIZE") {
+            size = parseInt(parts[1], 10);
+        } else if (keyword === "LUT_1D_SIZE") {
+            throw new Error("1D LUTs are not supported");
+        } else if (keyword === "DOMAIN_MIN") {
+            domainMin = parseDomain(parts, keyword);
+        } else if (keyword === "DOMAIN_MAX") {
+            domainMax = parseDomain(parts, keyword);
+        } else if (/^[-+.\d]/.test(parts[0])) {
+            if (parts.length < 3) throw new Error("Malformed LUT row");
+            values.push(Number(parts[0]), Number(parts[1]), Number(parts[2]));
+        }
+        // TITLE and other keywords are ignored
+    }
+
+    if (!size || size < 2 || size > 128) throw new Error("Missing or invalid LUT_3D_SIZE");
+    if (values.length !== size * size * size * 3 || values.some((v) => !Number.isFinite(v))) {
+        throw new Error(`Expected ${size ** 3} LUT entries`);
+    }
+    if (domainMin.some((min, c) => domainMax[c] <= min)) {
+        throw new Error("DOMAIN_MAX must be above DOMAIN_MIN");
+    }
+
+    // The domain is the range of input colours the table spans; the table values are outputs as-is
+    return { name, size, data: new Float32Array(values), domainMin, domainMax };
+};
+
+// --- Pixel processing ---
+
+// Cheap deterministic noise so grain doesn't shimmer between re-renders
+const hashNoise = (x: number, y: number) => {
+    let h = (x * 374761393 + y * 668265263) | 0;
+    h = Math.imul(h ^ (h >>> 13), 1274126177);
+    return ((h ^ (h >>> 16)) & 0xffff) / 0xffff;
+};
+
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+// Grain cells across the short side, so the grain looks the same in a small preview and a print
+const GRAIN_RESOLUTION = 360;
+
+/** Applies the filter to the pixels in place. */
+export const applyFilter = (image: ImageData, f: FilterSettings, lut: Lut | null = null) => {
+    if (isNeutralFilter(f)) return;
+
+    const { data, width, height } = image;
+    const gain = Math.pow(2, f.exposure);
+    const warmR = 1 + f.temperature * 0.15;
+    const warmB = 1 - f.temperature * 0.15;
+    const contrast = 1 + f.contrast;
+    const saturation = 1 + f.saturation;
+    const grain = f.grain * 0.2;
+    const cx = width / 2;
+    const cy = height / 2;
+    const maxDist = Math.sqrt(cx * cx + cy * cy) || 1;
+    const grainScale = GRAIN_RESOLUTION / (Math.min(width, height) || 1);
+
+    const n = lut ? lut.size : 0;
+    const lutData = lut ? lut.data : null;
+    const domainMin = lut?.domainMin ?? [0, 0, 0];
+    const domainMax = lut?.domainMax ?? [1, 1, 1];
+    const domainScale = domainMin.map((min, c) => 1 / (domainMax[c] - min || 1));
+    const lutOut = new Float32Array(3);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            let r = (data[i] / 255) * gain * warmR;
+            let g = (data[i + 1] / 255) * gain;
+            let b = (data[i + 2] / 255) * gain * warmB;
+
+            r = (r - 0.5) * contrast + 0.5;
+            g = (g - 0.5) * contrast + 0.5;
+            b = (b - 0.5) * contrast + 0.5;
+
+            const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+            r = luma + (r - luma) * saturation;
+            g = luma + (g - luma) * saturation;
+            b = luma + (b - luma) * saturation;
+
+            if (lutData) {
+                // Trilinear lookup, with the colour mapped into the LUT's domain first
+                const fr = clamp01((r - domainMin[0]) * domainScale[0]) * (n - 1);
+                const fg = clamp01((g - domainMin[1]) * domainScale[1]) * (n - 1);
+                const fb = clamp01((b - domainMin[2]) * domainScale[2]) * (n - 1);
+                const r0 = Math.floor(fr), g0 = Math.floor(fg), b0 = Math.floor(fb);
+                const r1 = Math.min(r0 + 1, n - 1), g1 = Math.min(g0 + 1, n - 1), b1 = Math.min(b0 + 1, n - 1);
+                const dr = fr - r0, dg = fg - g0, db = fb - b0;
+                // Offsets of the eight surrounding entries
+                const i000 = (r0 + g0 * n + b0 * n * n) * 3, i100 = (r1 + g0 * n + b0 * n * n) * 3;
+                const i010 = (r0 + g1 * n + b0 * n * n) * 3, i110 = (r1 + g1 * n + b0 * n * n) * 3;
+                const i001 = (r0 + g0 * n + b1 * n * n) * 3, i101 = (r1 + g0 * n + b1 * n * n) * 3;
+                const i011 = (r0 + g1 * n + b1 * n * n) * 3, i111 = (r1 + g1 * n + b1 * n * n) * 3;
+                for (let c = 0; c < 3; c++) {
+                    const c00 = lutData[i000 + c] * (1 - dr) + lutData[i100 + c] * dr;
+                    const c10 = lutData[i010 + c] * (1 - dr) + lutData[i110 + c] * dr;
+                    const c01 = lutData[i001 + c] * (1 - dr) + lutData[i101 + c] * dr;
+                    const c11 = lutData[i011 + c] * (1 - dr) + lutData[i111 + c] * dr;
+                    lutOut[c] = (c00 * (1 - dg) + c10 * dg) * (1 - db) + (c01 * (1 - dg) + c11 * dg) * db;
+                }
+                r = lutOut[0];
+                g = lutOut[1];
+                b = lutOut[2];
+            }
+
+            if (f.vignette > 0) {
+                const dx = x - cx;
+                const dy = y - cy;
+                const d = Math.sqrt(dx * dx + dy * dy) / maxDist;
+                const t = clamp01((d - 0.35) / 0.65);
+                const v = 1 - f.vignette * t * t * (3 - 2 * t);
+                r *= v;
+                g *= v;
+                b *= v;
+            }
+
+            if (grain > 0) {
+                const noise = (hashNoise(Math.floor(x * grainScale), Math.floor(y * grainScale)) - 0.5) * grain;
+                r += noise;
+                g += noise;
+                b += noise;
+            }
+
+            data[i] = clamp01(r) * 255;
+            data[i + 1] = clamp01(g) * 255;
+            data[i + 2] = clamp01(b) * 255;
+        }
+    }
+};
+
+// Source rectangle for object-fit: cover, centred
+export const getCoverRect = (srcWidth: number, srcHeight: number, width: number, height: number): Rect => {
+    const targetRatio = width / height;
+    let sw = srcWidth;
+    let sh = srcHeight;
+    if (srcWidth / srcHeight > targetRatio) {
+        sw = sh * targetRatio;
+    } else {
+        sh = sw / targetRatio;
+    }
+    return { x: (srcWidth - sw) / 2, y: (srcHeight - sh) / 2, width: sw, height: sh };
+};
+
+/** Crops `source` to cover width x height pixels and returns it filtered on a new canvas. */
+export const renderFilteredImage = (
+    source: HTMLImageElement | HTMLCanvasElement | ImageBitmap,
+    width: number,
+    height: number,
+    f: FilterSettings,
+    lut: Lut | null = null
+): HTMLCanvasElement => {
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+    const srcWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+    const srcHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+    const crop = getCoverRect(srcWidth, srcHeight, canvas.width, canvas.height);
+    ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+
+    if (!isNeutralFilter(f)) {
+        const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        applyFilter(pixels, f, lut);
+        ctx.putImageData(pixels, 0, 0);
+    }
+    return canvas;
+};
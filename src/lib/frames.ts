@@ -0,0 +1,109 @@
+// Captured frames are JPEG Blobs rather than base64 strings: they stay out of
+// the JS heap, and the browser can page them out. Each frame carries an object
+// URL for <img> and video uploads; releaseBursts frees both when a session ends.
+
+import { getCropRect } from "./cameraFormat";
+import { canvasToBlob } from "./download";
+
+export interface Frame {
+    blob: Blob;
+    url: string; // object URL for the blob
+}
+
+export type Burst = Frame[]; // One slot's frames, oldest first; the last is the snap
+
+export interface BurstOptions {
+    fps: number;
+    size: number; // longest side of burst frames in px; the snap is full resolution
+    quality: number; // JPEG quality, 0-1
+}
+
+export const BURST_SECONDS = 3; // only the last seconds before a snap are kept for GIFs
+export const SNAP_QUALITY = 0.92;
+
+export const createFrame = (blob: Blob): Frame => ({ blob, url: URL.createObjectURL(blob) });
+
+export const canvasToFrame = async (canvas: HTMLCanvasElement, quality: number): Promise<Frame | null> => {
+    const blob = await canvasToBlob(canvas, "image/jpeg", quality);
+    return blob ? createFrame(blob) : null;
+};
+
+// Decoded frames are shared between renders; keyed by frame so they go when the frame does
+const bitmaps = new WeakMap<Frame, Promise<ImageBitmap>>();
+
+export const decodeFrame = (frame: Frame): Promise<ImageBitmap> => {
+    let bitmap = bitmaps.get(frame);
+    if (!bitmap) {
+        bitmap = createImageBitmap(frame.blob);
+        bitmap.catch(() => bitmaps.delete(frame));
+        bitmaps.set(frame, bitmap);
+    }
+    return bitmap;
+};
+
+export const releaseFrame = (frame: Frame) => {
+    URL.revokeObjectURL(frame.url);
+    bitmaps.get(frame)?.then((bitmap) => bitmap.close(), () => undefined);
+    bitmaps.delete(frame);
+};
+
+export const releaseBursts = (bursts: Burst[]) => bursts.forEach((burst) => burst.forEach(releaseFrame));
+
+/**
+ * Fixed-size buffer for a burst in progress: once full, each new frame drops
+ * (and releases) the oldest, so a long countdown can't grow memory.
+ */
+export const createFrameRing = (capacity: number) => {
+    let frames: Frame[] = [];
+    return {
+        push: (frame: Frame) => {
+            frames.push(frame);
+            if (frames.length > capacity) frames.splice(0, frames.length - capacity).forEach(releaseFrame);
+        },
+        // Hands the frames over; the ring forgets them without releasing
+        take: () => {
+            const taken = frames;
+            frames = [];
+            return taken;
+        },
+        clear: () => {
+            frames.forEach(releaseFrame);
+            frames = [];
+        },
+    };
+};
+
+export type FrameRing = ReturnType<typeof createFrameRing>;
+
+/**
+ * Encodes the current video frame, mirrored like the preview and cropped to
+ * the slot's `aspect`, scaled so its longest side is at most `maxSize` (null
+ * keeps the camera resolution). `process` can rework the pixels first, e.g. to
+ * replace a green screen.
+ */
+export const grabFrame = async (
+    video: HTMLVideoElement,
+    canvas: HTMLCanvasElement,
+    aspect: number,
+    maxSize: number | null,
+    quality: number,
+    process?: ((pixels: ImageData) => void) | null
+): Promise<Frame | null> => {
+    if (video.readyState < 2 || !video.videoWidth) return null;
+    const crop = getCropRect(video.videoWidth, video.videoHeight, aspect);
+    const ratio = maxSize ? Math.min(1, maxSize / Math.max(crop.width, crop.height)) : 1;
+    canvas.width = Math.round(crop.width * ratio);
+    canvas.height = Math.round(crop.height * ratio);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+
+    ctx.setTransform(-1, 0, 0, 1, canvas.width, 0);
+    ctx.drawImage(video, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    if (process) {
+        const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        process(pixels);
+        ctx.putImageData(pixels, 0, 0);
+    }
+    return canvasToFrame(canvas, quality);
+};
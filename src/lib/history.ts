@@ -0,0 +1,65 @@
+// Undo/redo for editor state. Every change replaces the whole document, so
+// undo is just stepping back through snapshots.
+
+export interface History<T> {
+    past: T[];
+    present: T;
+    future: T[];
+    // Rapid changes with the same key (a slider drag, typing) collapse into one step
+    lastKey: string | null;
+    lastAt: number;
+}
+
+const MAX_STEPS = 100;
+const COALESCE_MS = 1000;
+
+export const createHistory = <T>(present: T): History<T> => ({
+    past: [],
+    present,
+    future: [],
+    lastKey: null,
+    lastAt: 0,
+});
+
+/** `present` with `changes` applied, or `present` itself if they change nothing, so no empty step is pushed. */
+export const mergeChanges = <T extends object>(present: T, changes: Partial<T>): T =>
+    (Object.keys(changes) as (keyof T)[]).some((key) => !Object.is(changes[key], present[key]))
+        ? { ...present, ...changes }
+        : present;
+
+export const pushHistory = <T>(history: History<T>, next: T, key: string | null = null): History<T> => {
+    if (next === history.present) return history;
+    const now = Date.now();
+    if (key !== null && key === history.lastKey && now - history.lastAt < COALESCE_MS) {
+        return { ...history, present: next, future: [], lastAt: now };
+    }
+    return {
+        past: [...history.past, history.present].slice(-MAX_STEPS),
+        present: next,
+        future: [],
+        lastKey: key,
+        lastAt: now,
+    };
+};
+
+export const undoHistory = <T>(history: History<T>): History<T> => {
+    if (history.past.length === 0) return history;
+    return {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+        lastKey: null,
+        lastAt: 0,
+    };
+};
+
+export const redoHistory = <T>(history: History<T>): History<T> => {
+    if (history.future.length === 0) return history;
+    return {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+        lastKey: null,
+        lastAt: 0,
+    };
+};
@@ -0,0 +1,25 @@
+/**
+ * Turns a user-selected image into a PNG data URL, scaled down so its longest
+ * side is at most `maxSize` px. Data URLs survive reloads, unlike object URLs,
+ * so uploads can be saved with the session or in settings.
+ */
+export const readImageFile = async (file: File, maxSize = 512): Promise<string> => {
+    if (!file.type.startsWith("image/")) throw new Error(`${file.name} is not an image`);
+    const url = URL.createObjectURL(file);
+    try {
+        const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+            const image = new Image();
+            image.onload = () => resolve(image);
+            image.onerror = () => reject(new Error(`${file.name} could not be read`));
+            image.src = url;
+        });
+        const ratio = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.max(1, Math.round(img.naturalWidth * ratio));
+        canvas.height = Math.max(1, Math.round(img.naturalHeight * ratio));
+        canvas.getContext("2d")?.drawImage(img, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL("image/png");
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
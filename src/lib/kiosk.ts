@@ -0,0 +1,90 @@
+// Kiosk mode runs /booth unattended at events: fullscreen, no way out
+// without the PIN, and back to the layout step when guests walk away.
+
+export interface KioskSettings {
+    enabled: boolean;
+    pinHash: string; // hex SHA-256 of the exit PIN, which is never stored
+    pinLength: number; // so the PIN pad knows when the PIN is complete
+    idleSeconds: number; // back to the layout step after this long without input
+    pedalKey: string; // KeyboardEvent.key sent by a USB foot pedal; space always works too
+}
+
+export const DEFAULT_KIOSK: KioskSettings = {
+    enabled: false,
+    pinHash: "",
+    pinLength: 0,
+    idleSeconds: 90,
+    pedalKey: "Enter",
+};
+
+export const MIN_PIN_LENGTH = 4;
+export const IDLE_OPTIONS = [30, 60, 90, 120, 300]; // seconds
+
+const KIOSK_KEY = "photobooth.kiosk";
+
+/** Hex SHA-256 of a PIN, as stored in the settings. */
+export const hashPin = async (pin: string) => {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(pin));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+/** True for the keys that trigger the next step: space or the pedal. */
+export const isTriggerKey = (e: KeyboardEvent, settings: KioskSettings) =>
+    e.key === " " || e.key === settings.pedalKey;
+
+/** Shown in the setup form; " " is hard to read on its own. */
+export const describeKey = (key: string) => (key === " " ? "Space" : key);
+
+const readStoredKiosk = (): KioskSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(KIOSK_KEY) || "null");
+        if (typeof stored !== "object" || stored === null) return DEFAULT_KIOSK;
+        const { pin, ...rest } = stored;
+        const settings: KioskSettings = { ...DEFAULT_KIOSK, ...rest };
+        // Settings from before PINs were hashed: replace the plain PIN with its hash
+        if (typeof pin === "string" && pin) {
+            settings.pinLength = pin.length;
+            hashPin(pin)
+                .then((pinHash) => saveKiosk({ ...getKiosk(), pinHash, pinLength: pin.length }))
+                .catch((err) => console.error("Failed to hash the kiosk PIN", err));
+        }
+        return settings;
+    } catch {
+        return DEFAULT_KIOSK;
+    }
+};
+
+// External store for useSyncExternalStore, like the branding settings
+let kiosk: KioskSettings | null = null;
+const kioskListeners = new Set<() => void>();
+
+export const subscribeKiosk = (listener: () => void) => {
+    kioskListeners.add(listener);
+    return () => {
+        kioskListeners.delete(listener);
+    };
+};
+
+export const getKiosk = (): KioskSettings => {
+    if (typeof window === "undefined") return DEFAULT_KIOSK;
+    if (!kiosk) kiosk = readStoredKiosk();
+    return kiosk;
+};
+
+export const getServerKiosk = () => DEFAULT_KIOSK;
+
+export const saveKiosk = (next: KioskSettings) => {
+    localStorage.setItem(KIOSK_KEY, JSON.stringify(next));
+    kiosk = next;
+    kioskListeners.forEach((listener) => listener());
+};
+
+export const enterFullscreen = () => {
+    if (document.fullscreenElement || !document.documentElement.requestFullscreen) return;
+    document.documentElement.requestFullscreen().catch((err) => console.error("Fullscreen was refused", err));
+};
+
+export const exitFullscreen = () => {
+    if (!document.fullscreenElement) return;
+    document.exitFullscreen().catch((err) => console.error("Failed to leave fullscreen", err));
+};
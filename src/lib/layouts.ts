@@ -0,0 +1,229 @@
+// Layout templates describe a strip as plain data so new layouts can be added
+// (or loaded from a JSON file) without touching components or stylesheets.
+// All coordinates are CSS pixels relative to the strip's top-left corner.
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface SlotTemplate extends Rect {
+    rotation?: number; // degrees, clockwise around the slot centre
+}
+
+export interface LayoutTemplate {
+    id: string;
+    name: string;
+    width: number;
+    height: number;
+    slots: SlotTemplate[]; // one photo per slot, in capture order
+    header: Rect | null; // null hides the date/brand line
+    footer?: Rect | null; // added by event branding (see applyBranding)
+    previewColor?: string; // swatch colour in LayoutSelector
+}
+
+export const STRIP_WIDTH = 380;
+export const STRIP_PADDING = 24;
+export const STRIP_GAP = 16;
+export const HEADER_HEIGHT = 24;
+export const HEADER_MARGIN = 8;
+export const SLOT_ASPECT = 4 / 3;
+
+const MAX_SLOTS = 12;
+const CUSTOM_LAYOUTS_KEY = "photobooth.customLayouts";
+
+const INNER_WIDTH = STRIP_WIDTH - STRIP_PADDING * 2;
+const DEFAULT_HEADER: Rect = { x: STRIP_PADDING, y: STRIP_PADDING, width: INNER_WIDTH, height: HEADER_HEIGHT };
+const GRID_TOP = STRIP_PADDING + HEADER_HEIGHT + HEADER_MARGIN + STRIP_GAP;
+
+const gridTemplate = (id: string, name: string, columns: number, count: number, previewColor: string): LayoutTemplate => {
+    const slotWidth = (INNER_WIDTH - (columns - 1) * STRIP_GAP) / columns;
+    const slotHeight = slotWidth / SLOT_ASPECT;
+    const rows = Math.ceil(count / columns);
+
+    const slots = Array.from({ length: count }, (_, i) => ({
+        x: STRIP_PADDING + (i % columns) * (slotWidth + STRIP_GAP),
+        y: GRID_TOP + Math.floor(i / columns) * (slotHeight + STRIP_GAP),
+        width: slotWidth,
+        height: slotHeight,
+    }));
+
+    const height = GRID_TOP + rows * slotHeight + (rows - 1) * STRIP_GAP + STRIP_PADDING;
+    return { id, name, width: STRIP_WIDTH, height, slots, header: DEFAULT_HEADER, previewColor };
+};
+
+// Slots zig-zag down the strip, each tilted the opposite way to the last
+const diagonalTemplate = (
+    id: string,
+    name: string,
+    columns: 1 | 2,
+    count: number,
+    previewColor: string
+): LayoutTemplate => {
+    const tilt = 2;
+    const inset = 4;
+    const slotWidth = columns === 1 ? INNER_WIDTH - 32 : (INNER_WIDTH - STRIP_GAP - inset * 2) / 2;
+    const slotHeight = slotWidth / SLOT_ASPECT;
+    // With two columns the right one is pushed down half a slot
+    const step = columns === 1 ? slotHeight + STRIP_GAP : (slotHeight + STRIP_GAP) / 2;
+
+    const slots = Array.from({ length: count }, (_, i) => {
+        const right = i % 2 === 1;
+        const x = right ? STRIP_WIDTH - STRIP_PADDING - inset - slotWidth : STRIP_PADDING + inset;
+        return { x, y: GRID_TOP + i * step, width: slotWidth, height: slotHeight, rotation: right ? tilt : -tilt };
+    });
+
+    const last = slots[slots.length - 1];
+    const height = last.y + slotHeight + STRIP_PADDING + inset;
+    return { id, name, width: STRIP_WIDTH, height, slots, header: DEFAULT_HEADER, previewColor };
+};
+
+export const BUILT_IN_LAYOUTS: LayoutTemplate[] = [
+    diagonalTemplate("4-diagonal", "4-Cut Diagonal", 2, 4, "var(--secondary)"),
+    diagonalTemplate("3-diagonal", "3-Cut Diagonal", 1, 3, "var(--accent)"),
+    gridTemplate("4-square", "4-Cut Square", 2, 4, "var(--primary)"),
+    gridTemplate("6-grid", "6-Cut Grid", 2, 6, "#FFD1DC"),
+];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const parseRect = (value: unknown, label: string, bounds: { width: number; height: number }): Rect => {
+    if (typeof value !== "object" || value === null) {
+        throw new Error(`${label} must be an object`);
+    }
+    const { x, y, width, height } = value as Record<string, unknown>;
+    if (!isFiniteNumber(x) || !isFiniteNumber(y) || !isFiniteNumber(width) || !isFiniteNumber(height)) {
+        throw new Error(`${label} needs numeric x, y, width and height`);
+    }
+    if (width <= 0 || height <= 0) {
+        throw new Error(`${label} must have a positive size`);
+    }
+    if (x < 0 || y < 0 || x + width > bounds.width || y + height > bounds.height) {
+        throw new Error(`${label} does not fit inside the strip`);
+    }
+    return { x, y, width, height };
+};
+
+// Slots turn about their centre, so check the box around the turned corners.
+// A hair of slack lets a slot that touches the edge at 0° through at ±90°.
+const rotatedRectFits = (rect: Rect, rotation: number, bounds: { width: number; height: number }) => {
+    const angle = (rotation * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(angle));
+    const sin = Math.abs(Math.sin(angle));
+    const halfWidth = (rect.width * cos + rect.height * sin) / 2;
+    const halfHeight = (rect.width * sin + rect.height * cos) / 2;
+    const cx = rect.x + rect.width / 2;
+    const cy = rect.y + rect.height / 2;
+    const slack = 1e-6;
+    return cx - halfWidth >= -slack
+        && cy - halfHeight >= -slack
+        && cx + halfWidth <= bounds.width + slack
+        && cy + halfHeight <= bounds.height + slack;
+};
+
+/**
+ * Validates untrusted JSON (e.g. an uploaded template file) and returns a
+ * clean LayoutTemplate. Throws an Error describing the first problem found.
+ */
+export const parseLayoutTemplate = (data: unknown): LayoutTemplate => {
+    if (typeof data !== "object" || data === null) {
+        throw new Error("Template must be a JSON object");
+    }
+    const raw = data as Record<string, unknown>;
+
+    if (typeof raw.id !== "string" || !raw.id.trim()) throw new Error("Template needs an id");
+    if (typeof raw.name !== "string" || !raw.name.trim()) throw new Error("Template needs a name");
+    if (!isFiniteNumber(raw.width) || !isFiniteNumber(raw.height) || raw.width <= 0 || raw.height <= 0) {
+        throw new Error("Template needs a positive width and height");
+    }
+    if (!Array.isArray(raw.slots) || raw.slots.length === 0) {
+        throw new Error("Template needs at least one slot");
+    }
+    if (raw.slots.length > MAX_SLOTS) {
+        throw new Error(`Templates can have at most ${MAX_SLOTS} slots`);
+    }
+
+    const bounds = { width: raw.width, height: raw.height };
+    const slots = raw.slots.map((slot, i) => {
+        const rect = parseRect(slot, `Slot ${i + 1}`, bounds);
+        const rotation = (slot as Record<string, unknown>).rotation;
+        if (rotation !== undefined && !isFiniteNumber(rotation)) {
+            throw new Error(`Slot ${i + 1} rotation must be a number`);
+        }
+        if (rotation && !rotatedRectFits(rect, rotation, bounds)) {
+            throw new Error(`Slot ${i + 1} does not fit inside the strip when rotated`);
+        }
+        return rotation ? { ...rect, rotation } : rect;
+    });
+
+    const header = raw.header === null || raw.header === undefined ? null : parseRect(raw.header, "Header", bounds);
+
+    return {
+        id: raw.id.trim(),
+        name: raw.name.trim(),
+        width: raw.width,
+        height: raw.height,
+        slots,
+        header,
+        previewColor: typeof raw.previewColor === "string" ? raw.previewColor : undefined,
+    };
+};
+
+const readStoredLayouts = (): LayoutTemplate[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(CUSTOM_LAYOUTS_KEY) || "[]");
+        if (!Array.isArray(stored)) return [];
+        return stored.flatMap((item) => {
+            try {
+                return [parseLayoutTemplate(item)];
+            } catch {
+                return [];
+            }
+        });
+    } catch {
+        return [];
+    }
+};
+
+// Custom layouts are a tiny external store (for useSyncExternalStore) backed by localStorage
+let customLayouts: LayoutTemplate[] | null = null;
+const customLayoutListeners = new Set<() => void>();
+const NO_LAYOUTS: LayoutTemplate[] = [];
+
+export const subscribeCustomLayouts = (listener: () => void) => {
+    customLayoutListeners.add(listener);
+    return () => {
+        customLayoutListeners.delete(listener);
+    };
+};
+
+export const getCustomLayouts = (): LayoutTemplate[] => {
+    if (typeof window === "undefined") return NO_LAYOUTS;
+    if (!customLayouts) customLayouts = readStoredLayouts();
+    return customLayouts;
+};
+
+export const getServerCustomLayouts = () => NO_LAYOUTS;
+
+export const saveCustomLayouts = (layouts: LayoutTemplate[]) => {
+    localStorage.setItem(CUSTOM_LAYOUTS_KEY, JSON.stringify(layouts));
+    customLayouts = layouts;
+    customLayoutListeners.forEach((listener) => listener());
+};
+
+/** Reads a template from a user-selected .json file. */
+export const readLayoutFile = async (file: File): Promise<LayoutTemplate> => {
+    let data: unknown;
+    try {
+        data = JSON.parse(await file.text());
+    } catch {
+        throw new Error(`${file.name} is not valid JSON`);
+    }
+    const template = parseLayoutTemplate(data);
+    if (BUILT_IN_LAYOUTS.some((l) => l.id === template.id)) {
+        throw new Error(`"${template.id}" is a built-in layout id`);
+    }
+    return template;
+};
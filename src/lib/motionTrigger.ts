@@ -0,0 +1,117 @@
+// Hands-free start for the camera, by frame differencing on the live preview.
+// Everything runs on a coarse grid of brightness samples, so it's cheap enough
+// to do every frame and nothing leaves the browser.
+
+import { Rect } from "./layouts";
+
+export type HandsFreeMode = "off" | "hotspot" | "still";
+
+export interface HandsFreeOptions {
+    mode: HandsFreeMode;
+    sensitivity: number; // 1 (least) to 5 (most)
+    stillSeconds: number; // "still" mode: how long the pose must be held
+}
+
+// Top corner of the preview as guests see it (mirrored), in shares of the preview
+export const HOTSPOT: Rect = { x: 0.72, y: 0.05, width: 0.23, height: 0.3 };
+
+const GRID_STEP = 8; // sample every 8th pixel both ways
+const HOTSPOT_FRAMES = 3; // consecutive moving frames, so a flicker doesn't count
+const LIGHTING_CHANGE = 0.5; // more than this share of the scene changing at once is the lights, not a hand
+const PRESENCE_SHARE = 0.08; // share of the scene that must differ from the empty backdrop
+const STILL_SHARE = 0.02; // at most this share may move for the scene to count as still
+const BACKDROP_BLEND = 0.05; // how fast the backdrop follows slow light changes
+
+// Brightness change (0-255) a sample needs to count as moving; higher sensitivity notices less
+const pixelThreshold = (sensitivity: number) => 50 - sensitivity * 6;
+// Share of the hotspot that must move to trigger
+const hotspotShare = (sensitivity: number) => 0.5 - sensitivity * 0.07;
+
+/**
+ * Feed it every preview frame; `update` returns true once when the trigger
+ * fires. Make a new detector for the next session.
+ */
+export const createMotionTrigger = (options: HandsFreeOptions) => {
+    const threshold = pixelThreshold(options.sensitivity);
+    let previous: Float32Array | null = null;
+    let backdrop: Float32Array | null = null;
+    let width = 0;
+    let hotspotFrames = 0;
+    let stillSince: number | null = null;
+    let fired = false;
+
+    const sample = (pixels: ImageData) => {
+        const columns = Math.ceil(pixels.width / GRID_STEP);
+        const rows = Math.ceil(pixels.height / GRID_STEP);
+        const samples = new Float32Array(columns * rows);
+        for (let row = 0; row < rows; row++) {
+            for (let col = 0; col < columns; col++) {
+                const i = (row * GRID_STEP * pixels.width + col * GRID_STEP) * 4;
+                const { data } = pixels;
+                samples[row * columns + col] = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+            }
+        }
+        return { samples, columns, rows };
+    };
+
+    return {
+        update: (pixels: ImageData, now: number): boolean => {
+            if (fired || options.mode === "off") return false;
+            const { samples, columns, rows } = sample(pixels);
+            // The camera changed resolution; start over
+            if (!previous || previous.length !== samples.length || width !== columns) {
+                previous = samples;
+                backdrop = samples.slice();
+                width = columns;
+                return false;
+            }
+
+            let moving = 0;
+            let hotspotMoving = 0;
+            let hotspotTotal = 0;
+            let changed = 0;
+            const left = Math.floor(HOTSPOT.x * columns);
+            const right = Math.ceil((HOTSPOT.x + HOTSPOT.width) * columns);
+            const top = Math.floor(HOTSPOT.y * rows);
+            const bottom = Math.ceil((HOTSPOT.y + HOTSPOT.height) * rows);
+            for (let i = 0; i < samples.length; i++) {
+                const isMoving = Math.abs(samples[i] - previous[i]) > threshold;
+                if (isMoving) moving++;
+                if (backdrop && Math.abs(samples[i] - backdrop[i]) > threshold) changed++;
+                const col = i % columns;
+                const row = Math.floor(i / columns);
+                if (col >= left && col < right && row >= top && row < bottom) {
+                    hotspotTotal++;
+                    if (isMoving) hotspotMoving++;
+                }
+            }
+            previous = samples;
+            const movingShare = moving / samples.length;
+
+            if (options.mode === "hotspot") {
+                const isWave = hotspotTotal > 0
+                    && hotspotMoving / hotspotTotal >= hotspotShare(options.sensitivity)
+                    && movingShare < LIGHTING_CHANGE;
+                hotspotFrames = isWave ? hotspotFrames + 1 : 0;
+                fired = hotspotFrames >= HOTSPOT_FRAMES;
+                return fired;
+            }
+
+            // "still": someone is in front of the backdrop and has stopped moving
+            const isPresent = changed / samples.length >= PRESENCE_SHARE;
+            const isStill = movingShare <= STILL_SHARE;
+            if (!isPresent && isStill && backdrop) {
+                for (let i = 0; i < samples.length; i++) backdrop[i] += (samples[i] - backdrop[i]) * BACKDROP_BLEND;
+            }
+            if (isPresent && isStill) {
+                stillSince ??= now;
+                fired = now - stillSince >= options.stillSeconds * 1000;
+                return fired;
+            }
+            stillSince = null;
+            return false;
+        },
+    };
+};
+
+export type MotionTrigger = ReturnType<typeof createMotionTrigger>;
@@ -0,0 +1,187 @@
+// A minimal PDF writer, enough for strips and contact sheets: pages hold JPEG
+// images and single-line captions in Helvetica (one of the standard fonts, so
+// nothing needs embedding). Units are PDF points, 72 per inch, from the top
+// left like a canvas; they're flipped to PDF's bottom-left origin on output.
+
+import { canvasToBlob } from "./download";
+
+export const POINTS_PER_INCH = 72;
+
+export interface PdfImage {
+    data: Uint8Array; // JPEG bytes
+    width: number; // pixels
+    height: number;
+}
+
+export interface PdfPage {
+    width: number; // points
+    height: number;
+    images: { image: PdfImage; x: number; y: number; width: number; height: number }[];
+    texts: { text: string; x: number; y: number; size: number; align?: "left" | "center" }[];
+}
+
+export const canvasToPdfImage = async (canvas: HTMLCanvasElement, quality = 0.92): Promise<PdfImage> => {
+    const blob = await canvasToBlob(canvas, "image/jpeg", quality);
+    if (!blob) throw new Error("JPEG encoding failed");
+    return { data: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+};
+
+// Helvetica advance widths (per 1000 units) for printable ASCII, to centre captions
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Standard fonts only cover Latin-1; anything else prints as "?"
+const toLatin1 = (text: string) => text.replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+
+export const measureText = (text: string, size: number) =>
+    [...toLatin1(text)].reduce((sum, ch) => sum + (HELVETICA_WIDTHS[ch.charCodeAt(0) - 32] ?? 556), 0) * size / 1000;
+
+const truncateText = (text: string, size: number, maxWidth: number) => {
+    if (measureText(text, size) <= maxWidth) return text;
+    let cut = text;
+    while (cut && measureText(`${cut}...`, size) > maxWidth) cut = cut.slice(0, -1);
+    return `${cut}...`;
+};
+
+// Content streams are written as UTF-8, so non-ASCII goes in as octal escapes
+const escapeText = (text: string) => toLatin1(text).replace(/[\\()\xa0-\xff]/g, (ch) =>
+    ch.charCodeAt(0) > 0x7e ? `\\${ch.charCodeAt(0).toString(8)}` : `\\${ch}`);
+
+const format = (n: number) => Number(n.toFixed(2)).toString();
+
+/** Assembles the pages into a PDF file. */
+export const buildPdf = (pages: PdfPage[]): Blob => {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+        // Object bodies are ASCII apart from image data, so TextEncoder keeps byte counts right
+        const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+        parts.push(bytes);
+        length += bytes.length;
+    };
+
+    // Object numbers: 1 catalog, 2 page tree, 3 font, then per page its new images, content and page
+    const objects: (() => void)[] = [];
+    const addObject = (body: () => void) => {
+        objects.push(body);
+        return objects.length;
+    };
+
+    const pageIds: number[] = [];
+    addObject(() => write(`<< /Type /Catalog /Pages 2 0 R >>`));
+    addObject(() => write(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`));
+    const font = addObject(() => write(`<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>`));
+
+    // Images are written once however many times they're placed
+    const imageIds = new Map<PdfImage, number>();
+
+    pages.forEach((page) => {
+        page.images.forEach(({ image }) => {
+            if (imageIds.has(image)) return;
+            imageIds.set(image, addObject(() => {
+                write(`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`);
+                write(image.data);
+                write(`\nendstream`);
+            }));
+        });
+
+        const ops: string[] = [];
+        page.images.forEach(({ image, x, y, width, height }) => {
+            ops.push(`q ${format(width)} 0 0 ${format(height)} ${format(x)} ${format(page.height - y - height)} cm /Im${imageIds.get(image)} Do Q`);
+        });
+        page.texts.forEach(({ text, x, y, size, align = "left" }) => {
+            const left = align === "center" ? x - measureText(text, size) / 2 : x;
+            // `y` is the top of the line; Td places the baseline
+            ops.push(`BT /F1 ${format(size)} Tf ${format(left)} ${format(page.height - y - size * 0.8)} Td (${escapeText(text)}) Tj ET`);
+        });
+        const content = encoder.encode(ops.join("\n"));
+        const contentId = addObject(() => {
+            write(`<< /Length ${content.length} >>\nstream\n`);
+            write(content);
+            write(`\nendstream`);
+        });
+
+        const xObjects = [...new Set(page.images.map(({ image }) => imageIds.get(image)))]
+            .map((id) => `/Im${id} ${id} 0 R`)
+            .join(" ");
+        pageIds.push(addObject(() => write(
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${format(page.width)} ${format(page.height)}] ` +
+            `/Resources << /Font << /F1 ${font} 0 R >> /XObject << ${xObjects} >> >> /Contents ${contentId} 0 R >>`
+        )));
+    });
+
+    write("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+    objects.forEach((body, i) => {
+        offsets.push(length);
+        write(`${i + 1} 0 obj\n`);
+        body();
+        write(`\nendobj\n`);
+    });
+
+    const xref = length;
+    write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach((offset) => write(`${offset.toString().padStart(10, "0")} 00000 n \n`));
+    write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+    return new Blob(parts as BlobPart[], { type: "application/pdf" });
+};
+
+/** One page at the sheet's physical size, e.g. a print sheet from renderPrintSheet. */
+export const buildSheetPdf = async (sheet: HTMLCanvasElement, size: { width: number; height: number }): Promise<Blob> => {
+    const width = size.width * POINTS_PER_INCH;
+    const height = size.height * POINTS_PER_INCH;
+    const image = await canvasToPdfImage(sheet);
+    return buildPdf([{ width, height, images: [{ image, x: 0, y: 0, width, height }], texts: [] }]);
+};
+
+export interface ContactSheetEntry {
+    image: PdfImage;
+    caption: string[]; // up to two short lines
+}
+
+// A4 portrait, two rows of five strips
+const SHEET = { width: 595.28, height: 841.89, margin: 36, columns: 5, rows: 2, gap: 14, title: 14, caption: 8 };
+
+/** Lays strips out in a grid with a caption under each, as many pages as needed. */
+export const buildContactSheetPdf = (entries: ContactSheetEntry[], title: string): Blob => {
+    const perPage = SHEET.columns * SHEET.rows;
+    const top = SHEET.margin + SHEET.title * 2;
+    const cellWidth = (SHEET.width - SHEET.margin * 2 - SHEET.gap * (SHEET.columns - 1)) / SHEET.columns;
+    const cellHeight = (SHEET.height - top - SHEET.margin - SHEET.gap * (SHEET.rows - 1)) / SHEET.rows;
+    const imageHeight = cellHeight - SHEET.caption * 3.5;
+
+    const pages: PdfPage[] = [];
+    for (let start = 0; start < entries.length; start += perPage) {
+        const page: PdfPage = { width: SHEET.width, height: SHEET.height, images: [], texts: [] };
+        const pageCount = Math.ceil(entries.length / perPage);
+        const heading = pageCount > 1 ? `${title} (${pages.length + 1}/${pageCount})` : title;
+        page.texts.push({ text: heading, x: SHEET.margin, y: SHEET.margin, size: SHEET.title });
+
+        entries.slice(start, start + perPage).forEach(({ image, caption }, i) => {
+            const cellX = SHEET.margin + (i % SHEET.columns) * (cellWidth + SHEET.gap);
+            const cellY = top + Math.floor(i / SHEET.columns) * (cellHeight + SHEET.gap);
+            const fit = Math.min(cellWidth / image.width, imageHeight / image.height);
+            const width = image.width * fit;
+            const height = image.height * fit;
+            page.images.push({ image, x: cellX + (cellWidth - width) / 2, y: cellY, width, height });
+            caption.slice(0, 2).forEach((line, l) => page.texts.push({
+                text: truncateText(line, SHEET.caption, cellWidth),
+                x: cellX + cellWidth / 2,
+                y: cellY + height + SHEET.caption * (0.75 + l * 1.25),
+                size: SHEET.caption,
+                align: "center",
+            }));
+        });
+        pages.push(page);
+    }
+    return buildPdf(pages);
+};
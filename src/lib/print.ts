@@ -0,0 +1,259 @@
+// Print output at real paper sizes. Strips are laid out on a sheet in inches,
+// rendered at the chosen DPI and sent to the browser's print dialog with a
+// matching @page size, so a dye-sub printer gets the right physical size.
+
+export interface PaperSize {
+    id: string;
+    name: string;
+    width: number; // inches, trim size
+    height: number;
+    copies: number; // strips side by side, cut apart after printing
+}
+
+export const PAPER_SIZES: PaperSize[] = [
+    { id: "strip-2x6", name: "2×6\" strip", width: 2, height: 6, copies: 1 },
+    { id: "sheet-4x6", name: "4×6\" (two strips)", width: 4, height: 6, copies: 2 },
+    { id: "a6", name: "A6", width: 105 / 25.4, height: 148 / 25.4, copies: 1 },
+];
+
+export const DPI_OPTIONS = [150, 300, 600];
+
+export interface PrintSettings {
+    paperId: string;
+    dpi: number;
+    bleed: boolean;
+    cropMarks: boolean;
+}
+
+export const DEFAULT_PRINT: PrintSettings = {
+    paperId: "strip-2x6",
+    dpi: 300,
+    bleed: false,
+    cropMarks: false,
+};
+
+const PRINT_KEY = "photobooth.print";
+
+const BLEED = 0.125; // inches past the trim on every side
+const MARK_MARGIN = 0.25; // inches outside the bleed that hold the crop marks
+const MARK_LENGTH = 0.2; // leaves a small gap so the marks never reach the bleed
+const MARK_WIDTH = 0.01; // about 0.7pt
+const PRINT_CLEANUP_TIMEOUT_MS = 5 * 60 * 1000; // drop the print frame even if afterprint never fires
+
+export const getPaperSize = (id: string) => PAPER_SIZES.find((p) => p.id === id) ?? PAPER_SIZES[0];
+
+/** Full sheet size in inches, including bleed and the crop mark margin. */
+export const getSheetSize = (settings: PrintSettings) => {
+    const paper = getPaperSize(settings.paperId);
+    const extra = (settings.bleed ? BLEED : 0) + (settings.cropMarks ? MARK_MARGIN : 0);
+    return { width: paper.width + extra * 2, height: paper.height + extra * 2 };
+};
+
+/**
+ * Output scale for renderStrip so one strip fills its cell on the sheet at the
+ * chosen DPI; layouts are measured in CSS px.
+ */
+export const getPrintScale = (layout: { width: number; height: number }, settings: PrintSettings) => {
+    const paper = getPaperSize(settings.paperId);
+    const cellWidth = (paper.width / paper.copies) * settings.dpi;
+    return Math.min(cellWidth / layout.width, (paper.height * settings.dpi) / layout.height);
+};
+
+/**
+ * Lays the rendered strip out on the sheet. Each copy is centred in its cell;
+ * the strip's border colour fills the rest of the cell and the bleed, so any
+ * trimming error only cuts into border.
+ */
+export const renderPrintSheet = (strip: HTMLCanvasElement, background: string, settings: PrintSettings): HTMLCanvasElement => {
+    const paper = getPaperSize(settings.paperId);
+    const { dpi } = settings;
+    const sheet = getSheetSize(settings);
+    const margin = settings.cropMarks ? MARK_MARGIN : 0;
+    const bleed = settings.bleed ? BLEED : 0;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(sheet.width * dpi);
+    canvas.height = Math.round(sheet.height * dpi);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+    // Work in inches from here on
+    ctx.scale(dpi, dpi);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, sheet.width, sheet.height);
+    ctx.fillStyle = background;
+    ctx.fillRect(margin, margin, paper.width + bleed * 2, paper.height + bleed * 2);
+
+    const trimX = margin + bleed;
+    const trimY = margin + bleed;
+    const cellWidth = paper.width / paper.copies;
+    const fit = Math.min(cellWidth / strip.width, paper.height / strip.height);
+    const width = strip.width * fit;
+    const height = strip.height * fit;
+    for (let i = 0; i < paper.copies; i++) {
+        const x = trimX + cellWidth * i + (cellWidth - width) / 2;
+        const y = trimY + (paper.height - height) / 2;
+        ctx.drawImage(strip, x, y, width, height);
+    }
+
+    if (settings.cropMarks) {
+        const cutsX = Array.from({ length: paper.copies + 1 }, (_, i) => trimX + cellWidth * i);
+        drawCropMarks(ctx, cutsX, [trimY, trimY + paper.height], sheet);
+    }
+    return canvas;
+};
+
+// Short lines in the margin, lined up with every cut
+const drawCropMarks = (ctx: CanvasRenderingContext2D, cutsX: number[], cutsY: number[], sheet: { width: number; height: number }) => {
+    ctx.save();
+    ctx.strokeStyle = "#000000";
+    ctx.lineWidth = MARK_WIDTH;
+    ctx.beginPath();
+    cutsX.forEach((x) => {
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, MARK_LENGTH);
+        ctx.moveTo(x, sheet.height - MARK_LENGTH);
+        ctx.lineTo(x, sheet.height);
+    });
+    cutsY.forEach((y) => {
+        ctx.moveTo(0, y);
+        ctx.lineTo(MARK_LENGTH, y);
+        ctx.moveTo(sheet.width - MARK_LENGTH, y);
+        ctx.lineTo(sheet.width, y);
+    });
+    ctx.stroke();
+    ctx.restore();
+};
+
+const readStoredPrint = (): PrintSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(PRINT_KEY) || "null");
+        return typeof stored === "object" && stored !== null ? { ...DEFAULT_PRINT, ...stored } : DEFAULT_PRINT;
+    } catch {
+        return DEFAULT_PRINT;
+    }
+};
+
+// External store for useSyncExternalStore; the operator sets this up once per event
+let printSettings: PrintSettings | null = null;
+const printListeners = new Set<() => void>();
+
+export const subscribePrint = (listener: () => void) => {
+    printListeners.add(listener);
+    return () => {
+        printListeners.delete(listener);
+    };
+};
+
+export const getPrint = (): PrintSettings => {
+    if (typeof window === "undefined") return DEFAULT_PRINT;
+    if (!printSettings) printSettings = readStoredPrint();
+    return printSettings;
+};
+
+export const getServerPrint = () => DEFAULT_PRINT;
+
+export const savePrint = (next: PrintSettings) => {
+    localStorage.setItem(PRINT_KEY, JSON.stringify(next));
+    printSettings = next;
+    printListeners.forEach((listener) => listener());
+};
+
+/**
+ * Opens the print dialog for the sheet in a hidden frame, with @page set to
+ * the sheet size and no margins so the printer doesn't scale it.
+ */
+export const printSheet = (canvas: HTMLCanvasElement, settings: PrintSettings): Promise<void> => {
+    const { width, height } = getSheetSize(settings);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (!blob) {
+                reject(new Error("Print render failed"));
+                return;
+            }
+            const url = URL.createObjectURL(blob);
+            const frame = document.createElement("iframe");
+            frame.style.position = "fixed";
+            frame.style.width = "0";
+            frame.style.height = "0";
+            frame.style.border = "none";
+            document.body.appendChild(frame);
+
+            let fallback: ReturnType<typeof setTimeout> | undefined;
+            const cleanup = () => {
+                clearTimeout(fallback);
+                frame.remove();
+                URL.revokeObjectURL(url);
+            };
+            const doc = frame.contentDocument;
+            if (!doc || !frame.contentWindow) {
+                cleanup();
+                reject(new Error("Print frame unavailable"));
+                return;
+            }
+            doc.open();
+            doc.write(`<!DOCTYPE html><html><head><style>
+                @page { size: ${width}in ${height}in; margin: 0; }
+                html, body { margin: 0; padding: 0; }
+                img { display: block; width: ${width}in; height: ${height}in; }
+            </style></head><body><img src="${url}" alt=""></body></html>`);
+            doc.close();
+
+            const img = doc.querySelector("img");
+            const print = () => {
+                const win = frame.contentWindow;
+                // Some browsers return from print() before the job is spooled, and
+                // removing the frame then cancels it; wait for afterprint instead
+                win?.addEventListener("afterprint", cleanup, { once: true });
+                fallback = setTimeout(cleanup, PRINT_CLEANUP_TIMEOUT_MS);
+                win?.focus();
+                win?.print();
+                resolve();
+            };
+            if (img && !img.complete) {
+                img.onload = print;
+                img.onerror = () => {
+                    cleanup();
+                    reject(new Error("Print image failed to load"));
+                };
+            } else {
+                print();
+            }
+        }, "image/png");
+    });
+};
+
+// CRC-32 table for PNG chunks
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Adds a pHYs chunk to a PNG so image viewers and print drivers know its
+ * physical size. The canvas encoder never writes one.
+ */
+export const setPngDpi = async (png: Blob, dpi: number): Promise<Blob> => {
+    const bytes = new Uint8Array(await png.arrayBuffer());
+    const pixelsPerMetre = Math.round(dpi / 0.0254);
+
+    const chunk = new Uint8Array(21);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, 9); // data length
+    chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+    view.setUint32(8, pixelsPerMetre);
+    view.setUint32(12, pixelsPerMetre);
+    chunk[16] = 1; // unit: metre
+    view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+    // Signature (8 bytes) + IHDR (25 bytes), then the new chunk
+    const IHDR_END = 33;
+    return new Blob([bytes.subarray(0, IHDR_END), chunk, bytes.subarray(IHDR_END)], { type: "image/png" });
+};
@@ -0,0 +1,106 @@
+import { BURSTS, openDb, promisify, SESSIONS, transactionDone } from "./db";
+import { DEFAULT_FILTER, FilterSettings, resolveFilter } from "./filters";
+import { Burst, createFrame } from "./frames";
+import { LayoutTemplate } from "./layouts";
+import { EditorState } from "./stripModel";
+
+// Booth sessions are kept in IndexedDB so a refresh or crash doesn't lose photos.
+// Session metadata and burst frames live in separate stores: metadata is rewritten
+// on every change, frames only when a capture completes.
+
+export type BoothStep = "layout" | "camera" | "upload" | "edit";
+
+export interface SessionRecord {
+    id: string;
+    createdAt: number;
+    updatedAt: number;
+    step: BoothStep;
+    layout: LayoutTemplate | null;
+    filter: FilterSettings;
+    editor: EditorState | null;
+    finished: boolean; // Set once the strip has been exported; finished sessions show in the gallery
+    thumbnail: Blob | null;
+}
+
+interface BurstRecord {
+    sessionId: string;
+    bursts: Blob[][]; // Frames stored as blobs rather than data URLs to keep the store small
+}
+
+export const createSession = (): SessionRecord => {
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+        step: "layout",
+        layout: null,
+        filter: DEFAULT_FILTER,
+        editor: null,
+        finished: false,
+        thumbnail: null,
+    };
+};
+
+export const saveSession = async (session: SessionRecord) => {
+    const db = await openDb();
+    const tx = db.transaction(SESSIONS, "readwrite");
+    tx.objectStore(SESSIONS).put({ ...session, updatedAt: Date.now() });
+    await transactionDone(tx);
+};
+
+// Sessions saved before the filter engine stored a preset name instead of settings
+const normalizeSession = (record: SessionRecord): SessionRecord => ({ ...record, filter: resolveFilter(record.filter) });
+
+export const getSession = async (id: string): Promise<SessionRecord | null> => {
+    const db = await openDb();
+    const record = (await promisify(db.transaction(SESSIONS).objectStore(SESSIONS).get(id))) as SessionRecord | undefined;
+    return record ? normalizeSession(record) : null;
+};
+
+const getAllSessions = async (): Promise<SessionRecord[]> => {
+    const db = await openDb();
+    const records = (await promisify(db.transaction(SESSIONS).objectStore(SESSIONS).getAll())) as SessionRecord[];
+    return records.map(normalizeSession);
+};
+
+/** Finished sessions, newest first. */
+export const listFinishedSessions = async (): Promise<SessionRecord[]> => {
+    const all = await getAllSessions();
+    return all.filter((s) => s.finished && s.layout).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/** The most recently updated session that got past the layout step and wasn't finished. */
+export const getResumableSession = async (): Promise<SessionRecord | null> => {
+    const all = await getAllSessions();
+    const candidates = all.filter((s) => !s.finished && s.layout && s.step !== "layout");
+    candidates.sort((a, b) => b.updatedAt - a.updatedAt);
+    return candidates[0] ?? null;
+};
+
+export const saveBursts = async (sessionId: string, bursts: Burst[]) => {
+    const db = await openDb();
+    const tx = db.transaction(BURSTS, "readwrite");
+    tx.objectStore(BURSTS).put({ sessionId, bursts: bursts.map((burst) => burst.map((frame) => frame.blob)) } satisfies BurstRecord);
+    await transactionDone(tx);
+};
+
+/** Returns the session's bursts as frames; release them with releaseBursts. */
+export const loadBursts = async (sessionId: string): Promise<Burst[]> => {
+    const db = await openDb();
+    const record = (await promisify(db.transaction(BURSTS).objectStore(BURSTS).get(sessionId))) as BurstRecord | undefined;
+    if (!record) return [];
+    return record.bursts.map((burst) => burst.map(createFrame));
+};
+
+export const deleteSessions = async (ids: string[]) => {
+    const db = await openDb();
+    const tx = db.transaction([SESSIONS, BURSTS], "readwrite");
+    ids.forEach((id) => {
+        tx.objectStore(SESSIONS).delete(id);
+        tx.objectStore(BURSTS).delete(id);
+    });
+    await transactionDone(tx);
+};
+
+export const deleteSession = (id: string) => deleteSessions([id]);
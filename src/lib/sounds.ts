@@ -0,0 +1,68 @@
+// Countdown beeps and a shutter sound, synthesised with the Web Audio API so
+// there are no audio files to ship.
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Browsers only start audio after a user gesture, so call this from the click
+ * that starts a session; later sounds then play from timers.
+ */
+export const unlockAudio = () => {
+    if (typeof AudioContext === "undefined") return null;
+    if (!audioContext) audioContext = new AudioContext();
+    if (audioContext.state === "suspended") {
+        audioContext.resume().catch((err) => console.error("Audio could not start", err));
+    }
+    return audioContext;
+};
+
+/** A short sine beep; the last one of a countdown is higher. */
+export const playBeep = (final = false) => {
+    const ctx = unlockAudio();
+    if (!ctx) return;
+    const now = ctx.currentTime;
+    const duration = final ? 0.25 : 0.12;
+
+    const osc = ctx.createOscillator();
+    osc.type = "sine";
+    osc.frequency.value = final ? 1320 : 880;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.0001, now);
+    gain.gain.exponentialRampToValueAtTime(0.3, now + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, now + duration);
+
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(now);
+    osc.stop(now + duration + 0.02);
+};
+
+// One click of the shutter: a burst of filtered noise with a fast decay
+const playClick = (ctx: AudioContext, at: number, frequency: number, volume: number) => {
+    const length = Math.round(ctx.sampleRate * 0.06);
+    const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < length; i++) {
+        data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 4);
+    }
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    const filter = ctx.createBiquadFilter();
+    filter.type = "bandpass";
+    filter.frequency.value = frequency;
+    filter.Q.value = 0.8;
+    const gain = ctx.createGain();
+    gain.gain.value = volume;
+
+    source.connect(filter).connect(gain).connect(ctx.destination);
+    source.start(at);
+};
+
+/** Mirror up, mirror down: two clicks like an SLR. */
+export const playShutter = () => {
+    const ctx = unlockAudio();
+    if (!ctx) return;
+    const now = ctx.currentTime;
+    playClick(ctx, now, 3000, 0.9);
+    playClick(ctx, now + 0.09, 1800, 0.7);
+};
@@ -0,0 +1,76 @@
+// Sticker packs are described by manifests under public/stickers. The index
+// (packs.json) lists manifest paths; each manifest names its stickers with
+// image paths relative to the manifest:
+//
+//   { "id": "props", "name": "Props", "stickers": [{ "id": "hat", "name": "Hat", "src": "hat.svg" }] }
+
+export interface StickerItem {
+    id: string;
+    name: string;
+    content?: string; // emoji text
+    image?: string; // image URL (PNG/SVG with transparency)
+}
+
+export interface StickerPack {
+    id: string;
+    name: string;
+    stickers: StickerItem[];
+}
+
+const PACKS_INDEX = "/stickers/packs.json";
+
+export const EMOJI_PACK: StickerPack = {
+    id: "emoji",
+    name: "Emoji",
+    stickers: ["❤️", "⭐", "🎀", "😎", "🔥", "✨", "🐶", "🐱", "👑", "💋"].map((content) => ({ id: content, name: content, content })),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Validates a pack manifest, resolving sticker paths against `baseUrl`. Throws on bad data. */
+export const parseStickerPack = (data: unknown, baseUrl: string): StickerPack => {
+    if (!isRecord(data)) throw new Error("Sticker pack must be a JSON object");
+    const { id, name, stickers } = data;
+    if (typeof id !== "string" || !id) throw new Error("Sticker pack needs an id");
+    if (typeof name !== "string" || !name) throw new Error(`Sticker pack "${id}" needs a name`);
+    if (!Array.isArray(stickers) || stickers.length === 0) throw new Error(`Sticker pack "${id}" has no stickers`);
+
+    return {
+        id,
+        name,
+        stickers: stickers.map((item, i) => {
+            if (!isRecord(item) || typeof item.src !== "string") {
+                throw new Error(`Sticker ${i + 1} in "${id}" needs a src`);
+            }
+            return {
+                id: typeof item.id === "string" ? item.id : `${id}-${i}`,
+                name: typeof item.name === "string" ? item.name : `Sticker ${i + 1}`,
+                image: new URL(item.src, baseUrl).pathname,
+            };
+        }),
+    };
+};
+
+/** Loads every installed pack; a broken manifest is logged and skipped. */
+export const loadStickerPacks = async (): Promise<StickerPack[]> => {
+    const indexUrl = new URL(PACKS_INDEX, window.location.origin);
+    const res = await fetch(indexUrl);
+    if (!res.ok) throw new Error(`Sticker index failed to load (${res.status})`);
+    const index = await res.json();
+    const paths: unknown[] = isRecord(index) && Array.isArray(index.packs) ? index.packs : [];
+
+    const packs = await Promise.all(paths.map(async (path) => {
+        if (typeof path !== "string") return null;
+        const manifestUrl = new URL(path, indexUrl);
+        try {
+            const manifest = await fetch(manifestUrl);
+            if (!manifest.ok) throw new Error(`HTTP ${manifest.status}`);
+            return parseStickerPack(await manifest.json(), manifestUrl.href);
+        } catch (err) {
+            console.error(`Failed to load sticker pack ${path}:`, err);
+            return null;
+        }
+    }));
+    return packs.filter((pack): pack is StickerPack => pack !== null);
+};
@@ -0,0 +1,59 @@
+import { AnimationSettings, DEFAULT_ANIMATION } from "./animation";
+import { applyBranding, BrandingSettings, formatBrandDate } from "./branding";
+import { StripModel, StripSticker, StripStroke, StripText } from "./compositor";
+import { FilterSettings } from "./filters";
+import { Burst } from "./frames";
+import { LayoutTemplate } from "./layouts";
+
+// Everything the user changes in the editor, persisted with the session
+export interface EditorState {
+    borderColor: string;
+    stickers: StripSticker[];
+    animation: AnimationSettings;
+    stripFilter: FilterSettings;
+    slotFilters: (FilterSettings | null)[]; // Per-slot overrides, null follows stripFilter
+    texts: StripText[];
+    header: StripModel["header"];
+    uploadedStickers: string[]; // Data URLs of images the guest added as stickers
+    strokes: StripStroke[];
+    branding: BrandingSettings; // Event branding when the strip was made, so resumed sessions keep it
+}
+
+/**
+ * A fresh editor document. Saved states are spread over it, so sessions from
+ * before a feature existed get its defaults: older sessions predate editor
+ * filters and fall back to the camera's choice, for instance.
+ */
+export const createEditorState = (filter: FilterSettings, branding: BrandingSettings): EditorState => ({
+    borderColor: "#ffffff",
+    stickers: [],
+    animation: DEFAULT_ANIMATION,
+    stripFilter: filter,
+    slotFilters: [],
+    texts: [],
+    header: { date: formatBrandDate(new Date(), branding), brand: branding.title },
+    uploadedStickers: [],
+    strokes: [],
+    branding,
+});
+
+/**
+ * The compositor's model for a strip as the editor left it. Used by the editor
+ * itself and by exports that work on saved sessions (contact sheets).
+ */
+export const buildStripModel = (photos: Burst[], layout: LayoutTemplate, state: EditorState): StripModel => {
+    const { branding } = state;
+    const stripLayout = applyBranding(layout, branding);
+    return {
+        photos,
+        layout: stripLayout,
+        filters: stripLayout.slots.map((_, i) => state.slotFilters[i] ?? state.stripFilter),
+        borderColor: state.borderColor,
+        header: state.header,
+        logo: branding.logo,
+        footer: branding.footer,
+        stickers: state.stickers,
+        texts: state.texts,
+        strokes: state.strokes,
+    };
+};
@@ -0,0 +1,148 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+// Server-side storage for shared strips. Each strip gets a folder under the
+// storage directory holding its files and a meta.json.
+//
+// Configuration (environment variables):
+//   STRIP_STORAGE_DIR  where strips are written (default: <project>/.strips)
+//   STRIP_TTL_HOURS    how long a strip stays available, 0 keeps them forever (default: 72)
+
+export type StripFile = "image" | "gif";
+
+export interface StripMeta {
+    id: string;
+    createdAt: number;
+    expiresAt: number | null;
+    imageType: "image/png" | "image/jpeg";
+    hasGif: boolean;
+    deleteToken: string;
+}
+
+export const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+export const MAX_GIF_BYTES = 40 * 1024 * 1024;
+// Both files plus room for the multipart boundaries and headers
+export const MAX_UPLOAD_BYTES = MAX_IMAGE_BYTES + MAX_GIF_BYTES + 64 * 1024;
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{12}$/;
+const DEFAULT_TTL_HOURS = 72;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+const MAGIC_BYTES: { type: "image/png" | "image/jpeg" | "image/gif"; bytes: number[] }[] = [
+    { type: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+    { type: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+    { type: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] }, // "GIF8", as in GIF87a and GIF89a
+];
+
+const getStorageDir = () => process.env.STRIP_STORAGE_DIR || path.join(process.cwd(), ".strips");
+
+const getTtlMs = () => {
+    const hours = Number(process.env.STRIP_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+    return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : null;
+};
+
+export const isValidStripId = (id: string) => ID_PATTERN.test(id);
+
+/**
+ * The image type a file's leading bytes say it is, or null for anything else.
+ * Uploads are typed by this rather than by what the client claims.
+ */
+export const detectImageType = (data: Buffer) =>
+    MAGIC_BYTES.find(({ bytes }) => data.length >= bytes.length && bytes.every((byte, i) => data[i] === byte))?.type ?? null;
+
+const stripDir = (id: string) => path.join(getStorageDir(), id);
+
+const fileName = (meta: StripMeta, file: StripFile) =>
+    file === "gif" ? "motion.gif" : meta.imageType === "image/png" ? "strip.png" : "strip.jpg";
+
+const isExpired = (meta: StripMeta) => meta.expiresAt !== null && meta.expiresAt <= Date.now();
+
+const readMeta = async (id: string): Promise<StripMeta | null> => {
+    try {
+        return JSON.parse(await readFile(path.join(stripDir(id), "meta.json"), "utf8")) as StripMeta;
+    } catch {
+        return null;
+    }
+};
+
+export const deleteStrip = async (id: string) => {
+    if (!isValidStripId(id)) return;
+    await rm(stripDir(id), { recursive: true, force: true });
+};
+
+/** Metadata for a live strip; expired strips are removed on access. */
+export const getStrip = async (id: string): Promise<StripMeta | null> => {
+    if (!isValidStripId(id)) return null;
+    const meta = await readMeta(id);
+    if (!meta) return null;
+    if (isExpired(meta)) {
+        await deleteStrip(id);
+        return null;
+    }
+    return meta;
+};
+
+export const readStripFile = async (meta: StripMeta, file: StripFile): Promise<{ data: Buffer; type: string; name: string } | null> => {
+    if (file === "gif" && !meta.hasGif) return null;
+    const name = fileName(meta, file);
+    try {
+        const data = await readFile(path.join(stripDir(meta.id), name));
+        return { data, type: file === "gif" ? "image/gif" : meta.imageType, name };
+    } catch {
+        return null;
+    }
+};
+
+export const saveStrip = async (image: { data: Buffer; type: StripMeta["imageType"] }, gif: Buffer | null): Promise<StripMeta> => {
+    const ttl = getTtlMs();
+    const now = Date.now();
+    const meta: StripMeta = {
+        id: randomBytes(9).toString("base64url"),
+        createdAt: now,
+        expiresAt: ttl ? now + ttl : null,
+        imageType: image.type,
+        hasGif: !!gif,
+        deleteToken: randomBytes(18).toString("base64url"),
+    };
+
+    const dir = stripDir(meta.id);
+    await mkdir(dir, { recursive: true });
+    await writeFile(path.join(dir, fileName(meta, "image")), image.data);
+    if (gif) {
+        await writeFile(path.join(dir, fileName(meta, "gif")), gif);
+    }
+    // Meta goes last so a half-written strip is never served
+    await writeFile(path.join(dir, "meta.json"), JSON.stringify(meta));
+    return meta;
+};
+
+export const checkDeleteToken = (meta: StripMeta, token: string) => {
+    const expected = Buffer.from(meta.deleteToken);
+    const given = Buffer.from(token);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+};
+
+let lastSweep = 0;
+
+/**
+ * Removes expired strips so the storage folder doesn't grow forever. Runs at
+ * most once every SWEEP_INTERVAL_MS; calls in between return straight away.
+ */
+export const sweepExpiredStrips = async () => {
+    const now = Date.now();
+    if (now - lastSweep < SWEEP_INTERVAL_MS) return;
+    lastSweep = now;
+    let ids: string[];
+    try {
+        ids = await readdir(getStorageDir());
+    } catch {
+        return; // Nothing stored yet
+    }
+    await Promise.all(ids.filter(isValidStripId).map(async (id) => {
+        const meta = await readMeta(id);
+        if (meta && isExpired(meta)) {
+            await deleteStrip(id);
+        }
+    }));
+};
@@ -0,0 +1,111 @@
+// Photos from disk instead of the webcam. An image becomes a one-frame burst;
+// a short video is sampled into a burst like the camera records, so GIF and
+// video exports still move. Frames are re-encoded as JPEG, which also bounds
+// the size of phone photos and drops formats the editor can't draw.
+
+import { Burst, BURST_SECONDS, BurstOptions, canvasToFrame, releaseBursts, SNAP_QUALITY } from "./frames";
+
+export interface Upload {
+    id: string;
+    name: string;
+    kind: "image" | "video";
+    burst: Burst;
+}
+
+const MAX_PHOTO_SIZE = 2400; // longest side of an uploaded still, in px
+
+export const isSupportedUpload = (file: File) => file.type.startsWith("image/") || file.type.startsWith("video/");
+
+// Draws `source` scaled so its longest side is at most `maxSize`, then encodes it
+const encodeScaled = async (
+    source: CanvasImageSource,
+    width: number,
+    height: number,
+    canvas: HTMLCanvasElement,
+    maxSize: number,
+    quality: number
+) => {
+    const ratio = Math.min(1, maxSize / Math.max(width, height));
+    canvas.width = Math.max(1, Math.round(width * ratio));
+    canvas.height = Math.max(1, Math.round(height * ratio));
+    canvas.getContext("2d")?.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvasToFrame(canvas, quality);
+};
+
+const readImageUpload = async (file: File): Promise<Burst> => {
+    // createImageBitmap applies EXIF rotation, so phone photos come out upright
+    const bitmap = await createImageBitmap(file).catch(() => {
+        throw new Error(`${file.name} could not be read`);
+    });
+    try {
+        const frame = await encodeScaled(bitmap, bitmap.width, bitmap.height, document.createElement("canvas"), MAX_PHOTO_SIZE, SNAP_QUALITY);
+        if (!frame) throw new Error(`${file.name} could not be converted`);
+        return [frame];
+    } finally {
+        bitmap.close();
+    }
+};
+
+const loadVideo = (url: string, name: string) =>
+    new Promise<HTMLVideoElement>((resolve, reject) => {
+        const video = document.createElement("video");
+        video.muted = true;
+        video.playsInline = true;
+        video.preload = "auto";
+        video.onloadeddata = () => resolve(video);
+        video.onerror = () => reject(new Error(`${name} could not be played`));
+        video.src = url;
+    });
+
+const seek = (video: HTMLVideoElement, time: number) =>
+    new Promise<void>((resolve) => {
+        video.onseeked = () => resolve();
+        video.currentTime = time;
+    });
+
+/**
+ * Samples the last seconds of a clip at the burst frame rate. The final frame
+ * is the snap, kept at full resolution like the camera's.
+ */
+const readVideoUpload = async (file: File, options: BurstOptions): Promise<Burst> => {
+    const url = URL.createObjectURL(file);
+    const burst: Burst = [];
+    try {
+        const video = await loadVideo(url, file.name);
+        const { videoWidth: width, videoHeight: height } = video;
+        if (!width || !Number.isFinite(video.duration)) throw new Error(`${file.name} could not be read`);
+
+        // Stay a touch before the end; seeking to the very end shows nothing in some browsers
+        const end = Math.max(0, video.duration - 0.05);
+        const start = Math.max(0, end - BURST_SECONDS);
+        const count = Math.max(1, Math.floor((end - start) * options.fps));
+        const canvas = document.createElement("canvas");
+        for (let i = 0; i <= count; i++) {
+            const isSnap = i === count;
+            await seek(video, start + ((end - start) * i) / count);
+            const frame = await encodeScaled(
+                video,
+                width,
+                height,
+                canvas,
+                isSnap ? Math.max(width, height) : options.size,
+                isSnap ? SNAP_QUALITY : options.quality
+            );
+            if (frame) burst.push(frame);
+        }
+        if (burst.length === 0) throw new Error(`${file.name} could not be converted`);
+        return burst;
+    } catch (err) {
+        releaseBursts([burst]);
+        throw err;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+export const readUpload = async (file: File, options: BurstOptions): Promise<Upload> => {
+    if (!isSupportedUpload(file)) throw new Error(`${file.name} is not a photo or video`);
+    const kind = file.type.startsWith("video/") ? "video" : "image";
+    const burst = kind === "video" ? await readVideoUpload(file, options) : await readImageUpload(file);
+    return { id: crypto.randomUUID(), name: file.name, kind, burst };
+};
@@ -0,0 +1,77 @@
+// Records a sequence of composited frames into a video with MediaRecorder.
+// Unlike the GIF export this keeps full colour, and the files are much smaller.
+
+export type VideoFormat = "webm" | "mp4";
+
+const MIME_CANDIDATES: Record<VideoFormat, string[]> = {
+    mp4: ["video/mp4;codecs=avc1.42E01E", "video/mp4;codecs=avc1", "video/mp4"],
+    webm: ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"],
+};
+
+const VIDEO_BITRATE = 8_000_000;
+
+export const getVideoMimeType = (format: VideoFormat): string | null => {
+    if (typeof MediaRecorder === "undefined") return null;
+    return MIME_CANDIDATES[format].find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+export const isVideoFormatSupported = (format: VideoFormat) => getVideoMimeType(format) !== null;
+
+// H.264 encoders reject odd dimensions
+const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+
+export interface VideoFrame {
+    canvas: HTMLCanvasElement;
+    delay: number; // ms on screen
+}
+
+/**
+ * Plays `frames` onto a canvas in real time and records it,
+ * so recording takes as long as the video.
+ */
+export const recordVideo = async (
+    frames: VideoFrame[],
+    { format, onProgress }: { format: VideoFormat; onProgress?: (progress: number) => void }
+): Promise<Blob> => {
+    const mimeType = getVideoMimeType(format);
+    if (!mimeType) throw new Error(`${format.toUpperCase()} recording is not supported in this browser`);
+    if (frames.length === 0) throw new Error("No frames to record");
+
+    const canvas = document.createElement("canvas");
+    canvas.width = even(frames[0].canvas.width);
+    canvas.height = even(frames[0].canvas.height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+    // Paint the first frame before capture starts so the video doesn't open on a blank frame
+    ctx.drawImage(frames[0].canvas, 0, 0, canvas.width, canvas.height);
+
+    // Capture at the rate of the shortest frame so no frame gets dropped
+    const shortest = Math.min(...frames.map((f) => f.delay));
+    const stream = canvas.captureStream(Math.ceil(1000 / Math.max(shortest, 1)));
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITRATE });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+    };
+
+    const stopped = new Promise<void>((resolve, reject) => {
+        recorder.onstop = () => resolve();
+        recorder.onerror = () => reject(new Error("Video recording failed"));
+    });
+
+    recorder.start();
+    try {
+        for (let i = 0; i < frames.length; i++) {
+            ctx.drawImage(frames[i].canvas, 0, 0, canvas.width, canvas.height);
+            onProgress?.((i + 1) / frames.length);
+            await new Promise((r) => setTimeout(r, frames[i].delay));
+        }
+    } finally {
+        recorder.stop();
+        stream.getTracks().forEach((track) => track.stop());
+    }
+    await stopped;
+
+    return new Blob(chunks, { type: mimeType.split(";")[0] });
+};